@@ -12,6 +12,9 @@ import ComplexTaskSolver from './components/ComplexTaskSolver';
 import TextToSpeech from './components/TextToSpeech';
 import VideoEditor from './components/VideoEditor';
 import Profile from './components/Profile';
+import MemoryManager from './components/MemoryManager';
+import KnowledgeBaseManager from './components/KnowledgeBaseManager';
+import Settings from './components/Settings';
 import { Bars3Icon, MoonIcon, SunIcon, CoinIcon } from './constants';
 import { auth, db, googleProvider } from './firebase';
 import { onAuthStateChanged, signInWithPopup, signOut } from 'firebase/auth';
@@ -20,6 +23,10 @@ import LandingPage from './components/LandingPage';
 import Logo from './components/Logo';
 import Spinner from './components/Spinner';
 import PremiumPage from './components/PremiumPage';
+import RequestQueueStatus from './components/RequestQueueStatus';
+import JobTray from './components/JobTray';
+import SessionUsage from './components/SessionUsage';
+import { jobManager } from './services/jobManager';
 
 type Theme = 'light' | 'dark';
 
@@ -155,6 +162,19 @@ const App: React.FC = () => {
     }
   };
 
+  // Background jobs are charged when they finish, possibly after the page
+  // that started them is gone, so the balance follows from here.
+  useEffect(() => jobManager.onCharge((cost, userId) => {
+    setUser(prev => {
+      if (!prev || prev.uid !== userId) return prev;
+      const updatedUser = { ...prev, coins: (prev.coins ?? 0) - cost };
+      if (prev.isGuest) {
+        localStorage.setItem('guestProfile', JSON.stringify(updatedUser));
+      }
+      return updatedUser;
+    });
+  }), []);
+
   const handlePremiumUnlocked = async () => {
     if (user) {
         // For real users, isPremium is the only state. For guests, we keep their coins but mark them premium.
@@ -182,13 +202,13 @@ const App: React.FC = () => {
     if (!user) return <Spinner />;
     switch (activeFeature) {
       case Feature.CHATBOT:
-        return <Chatbot />;
+        return <Chatbot user={user} onUpdateCoins={handleCoinsUpdate} />;
       case Feature.IMAGE_GENERATOR:
-        return <ImageGenerator user={user} onUpdateCoins={handleCoinsUpdate} />;
+        return <ImageGenerator user={user} />;
       case Feature.IMAGE_ANALYZER:
         return <ImageAnalyzer />;
       case Feature.VIDEO_GENERATOR:
-        return <VideoGenerator user={user} onUpdateCoins={handleCoinsUpdate} />;
+        return <VideoGenerator user={user} />;
       case Feature.VIDEO_ANALYZER:
         return <VideoAnalyzer />;
       case Feature.VIDEO_EDITING:
@@ -201,8 +221,14 @@ const App: React.FC = () => {
         return <ComplexTaskSolver />;
       case Feature.TEXT_TO_SPEECH:
         return <TextToSpeech />;
+      case Feature.MEMORY:
+        return <MemoryManager user={user} />;
+      case Feature.KNOWLEDGE_BASE:
+        return <KnowledgeBaseManager />;
+      case Feature.SETTINGS:
+        return <Settings />;
       default:
-        return <Chatbot />;
+        return <Chatbot user={user} onUpdateCoins={handleCoinsUpdate} />;
     }
   };
 
@@ -260,6 +286,9 @@ const App: React.FC = () => {
             )}
           </div>
           <div className="flex items-center gap-4">
+            <SessionUsage />
+            <RequestQueueStatus />
+            <JobTray />
             <button
               onClick={toggleTheme}
               className="p-2 rounded-full text-gray-500 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-black/5 dark:hover:bg-white/5 transition-colors"
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ArrowPathIcon } from '../constants';
+
+interface CachedNoticeProps {
+  // When the cached answer was first fetched
+  cachedAt: number;
+  onRefresh: () => void;
+  disabled?: boolean;
+}
+
+const formatAge = (ms: number) => {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours} h ago` : `${Math.floor(hours / 24)} d ago`;
+};
+
+// Marks a result that came from the response cache, with a way to fetch it again.
+const CachedNotice: React.FC<CachedNoticeProps> = ({ cachedAt, onRefresh, disabled }) => (
+  <div className="flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg bg-indigo-500/10 text-xs text-indigo-700 dark:text-indigo-300">
+    <span>Cached result from {formatAge(Date.now() - cachedAt)}</span>
+    <button
+      type="button"
+      onClick={onRefresh}
+      disabled={disabled}
+      className="flex items-center gap-1 font-medium hover:underline disabled:opacity-50 disabled:no-underline"
+    >
+      <ArrowPathIcon className="w-3.5 h-3.5" />
+      Refresh
+    </button>
+  </div>
+);
+
+export default CachedNotice;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { StopCircleIcon } from '../constants';
+
+interface CancelButtonProps {
+  onClick: () => void;
+  label?: string;
+  className?: string;
+}
+
+// Shown next to a feature's submit button while its request runs.
+const CancelButton: React.FC<CancelButtonProps> = ({ onClick, label = 'Cancel', className = 'w-full' }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`${className} flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-br from-red-500 to-orange-600 text-white font-semibold rounded-full shadow-lg ring-1 ring-white/20 transition-all duration-300 ease-in-out transform hover:scale-105 hover:shadow-xl active:scale-95 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-900 focus:ring-red-500`}
+  >
+    <StopCircleIcon />
+    {label}
+  </button>
+);
+
+export default CancelButton;
@@ -1,182 +1,281 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Chat } from '@google/genai';
-import { ChatMessage } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { FunctionCall } from '@google/genai';
+import { doc, increment, updateDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { Attachment, ChatMessage, Conversation, GenerationParams, Memory, Persona, PromptTemplate, TokenUsage, ToolCallRecord } from '../types';
+import { UserProfile } from '../App';
 import { geminiService } from '../services/geminiService';
+import { ChatSession } from '../services/providers/types';
+import { conversationStore, createConversation, sortConversations } from '../services/conversationStore';
+import { personaStore } from '../services/personaStore';
+import { CHAT_TOOLS, MEMORY_TOOL_NAME, getChatToolDeclarations } from '../services/chatTools';
+import { buildMemoryInstruction, memoryStore } from '../services/memoryStore';
+import { buildGroundedPrompt, knowledgeBase, toCitation } from '../services/knowledgeBase';
+import { estimateCost, formatCost, formatTokens } from '../services/pricing';
+import { resolveModel } from '../services/modelRegistry';
+import { loadGenerationParams } from '../services/generationParams';
+import { ResponseBlockedError } from '../services/safety';
+import { describeError } from '../services/errors';
+import { PaletteItem, SLASH_COMMANDS, SlashCommandName, getPaletteItems, isSlashCommandName, parseSlashCommand } from '../services/slashCommands';
+import { extractVariables, templateCommand, templateStore } from '../services/templateStore';
+import { ExportFormat, exportFileName, parseConversation, printConversation, toHtml, toJson, toMarkdown } from '../services/conversationExport';
+import { ATTACHMENT_ACCEPT, formatBytes, getMessageAttachments, readAttachments } from '../services/attachments';
+import { CodeFile, extractCodeFiles, isPreviewLanguage } from '../services/codeSandbox';
+import { getChildren, getLatestLeaf, getPath, normalizeTree } from '../services/messageTree';
+import { jobManager } from '../services/jobManager';
 import { 
     SparklesIcon, UserIcon, PaperAirplaneIcon, PaperClipIcon, XCircleIcon, 
-    SpeakerWaveIcon, ClipboardIcon, CodeBracketIcon, CheckIcon, EyeIcon, ShareIcon, ArrowDownTrayIcon,
-    PlusIcon
+    SpeakerWaveIcon, ClipboardIcon, CodeBracketIcon, CheckIcon, EyeIcon, ArrowDownTrayIcon,
+    PlusIcon, StopCircleIcon, DocumentTextIcon, BookOpenIcon, ChatBubbleLeftRightIcon, PencilSquareIcon, ArrowPathIcon, ChevronLeftIcon, ChevronRightIcon,
+    BUILT_IN_PERSONAS
 } from '../constants';
-import { decode, decodeAudioData } from '../services/utils';
+import { decode, decodeAudioData, downloadBlob } from '../services/utils';
 import Spinner from './Spinner';
 import Logo from './Logo';
+import ConversationSidebar from './ConversationSidebar';
+import PersonaEditor from './PersonaEditor';
+import ToolCallCard from './ToolCallCard';
+import CitationList from './CitationList';
+import CodePreviewModal from './CodePreviewModal';
+import MermaidDiagram from './MermaidDiagram';
+import ExportMenu from './ExportMenu';
+import SlashCommandPalette from './SlashCommandPalette';
+import TemplateForm from './TemplateForm';
+import TemplateLibrary from './TemplateLibrary';
+import GenerationSettings from './GenerationSettings';
+import SafetyNotice from './SafetyNotice';
 
 
-const CodePreviewModal = ({ code, onClose }: { code: string; onClose: () => void }) => {
-    const [copySuccess, setCopySuccess] = useState(false);
-
-    const handleCopyToClipboard = () => {
-        navigator.clipboard.writeText(code);
-        setCopySuccess(true);
-        setTimeout(() => setCopySuccess(false), 2000);
-    };
-
-    const handleShare = async () => {
-        if (navigator.share) {
-            try {
-                await navigator.share({
-                    title: 'Code Snippet from NexaNeuron',
-                    text: code,
-                });
-            } catch (error) {
-                console.error('Error sharing:', error);
-            }
-        } else {
-            handleCopyToClipboard();
-            alert('Web Share API not supported. Code copied to clipboard instead.');
-        }
-    };
-    
-    // Auto-wrap HTML if no <html> tag is present for a better preview
-    const finalCode = code.trim().startsWith('<') && !/<html>/i.test(code) 
-        ? `<!DOCTYPE html>
-           <html>
-             <head>
-               <title>Preview</title>
-               <style>
-                 body { 
-                   font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol";
-                   padding: 1rem; 
-                   color: #212529;
-                 }
-               </style>
-             </head>
-             <body>
-               ${code}
-             </body>
-           </html>`
-        : code;
-
-    return (
-        <div className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
-            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-4xl h-[80vh] flex flex-col animate-fade-in-down" onClick={e => e.stopPropagation()}>
-                <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
-                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Code Preview</h3>
-                    <div className="flex items-center gap-2">
-                         <button onClick={handleCopyToClipboard} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-900 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
-                           {copySuccess ? <CheckIcon className="w-4 h-4 text-green-500" /> : <ClipboardIcon className="w-4 h-4" />}
-                           {copySuccess ? 'Copied!' : 'Copy Code'}
-                         </button>
-                         <button onClick={handleShare} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-900 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
-                           <ShareIcon className="w-4 h-4" />
-                           Share Code
-                         </button>
-                        <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400">
-                            <XCircleIcon className="w-6 h-6" />
-                        </button>
-                    </div>
-                </div>
-                <iframe
-                    srcDoc={finalCode}
-                    title="Code Preview"
-                    className="w-full h-full border-0 bg-white"
-                    sandbox="allow-scripts allow-same-origin"
-                />
-            </div>
-        </div>
-    );
-};
+interface ChatbotProps {
+  user: UserProfile;
+  onUpdateCoins: (newBalance: number) => void;
+}
 
+const TOKEN_COUNT_DELAY_MS = 500;
 
-const Chatbot: React.FC = () => {
-  const [history, setHistory] = useState<ChatMessage[]>([]);
+const Chatbot: React.FC<ChatbotProps> = ({ user, onUpdateCoins }) => {
+  // The whole message tree of the open conversation, and the branch being shown
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [leafId, setLeafId] = useState<string | null>(null);
   const [prompt, setPrompt] = useState('');
-  const [image, setImage] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Attachment and slash command problems, shown above the composer
+  const [composerErrors, setComposerErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [selectedStyle, setSelectedStyle] = useState('Normal');
-  const [isStyleMenuOpen, setIsStyleMenuOpen] = useState(false);
+  const [personas, setPersonas] = useState<Persona[]>(BUILT_IN_PERSONAS);
+  const [selectedPersonaId, setSelectedPersonaId] = useState(BUILT_IN_PERSONAS[0].id);
+  const [isPersonaMenuOpen, setIsPersonaMenuOpen] = useState(false);
+  const [isPersonaEditorOpen, setIsPersonaEditorOpen] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
+  const [activeTemplate, setActiveTemplate] = useState<PromptTemplate | null>(null);
+  const [paletteIndex, setPaletteIndex] = useState(0);
+  const [isPaletteDismissed, setIsPaletteDismissed] = useState(false);
+  const [memoryEnabled, setMemoryEnabled] = useState(false);
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [knowledgeCollections, setKnowledgeCollections] = useState<string[]>([]);
+  // Replies are grounded in this knowledge base collection while it is set
+  const [knowledgeCollection, setKnowledgeCollection] = useState<string | null>(null);
+  const [isKnowledgeMenuOpen, setIsKnowledgeMenuOpen] = useState(false);
+  // countTokens estimate of sending the composer's contents after the open branch
+  const [requestTokens, setRequestTokens] = useState<number | null>(null);
+  const [generationParams, setGenerationParams] = useState(() => loadGenerationParams('chat'));
   
   const [copiedStates, setCopiedStates] = useState<Record<string, boolean>>({});
   const [audioState, setAudioState] = useState<{ index: number | null, status: 'loading' | 'playing' | 'idle' }>({ index: null, status: 'idle' });
-  const [previewCode, setPreviewCode] = useState<string | null>(null);
+  const [previewFiles, setPreviewFiles] = useState<CodeFile[] | null>(null);
 
-  const chatRef = useRef<Chat | null>(null);
+  const chatRef = useRef<ChatSession | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set when the chat no longer matches what is on screen (a reply was stopped
+  // part-way, the persona or settings changed, or another branch was picked); it is rebuilt before the next message.
+  const chatOutOfSyncRef = useRef(false);
+  // Bumped on every switch so a slow restore can't attach to the wrong conversation
+  const restoreIdRef = useRef(0);
+  // Tool calls waiting on the user's Run/Skip, keyed by call id
+  const confirmationsRef = useRef(new Map<string, (approved: boolean) => void>());
+  // Several paid tool calls can happen before `user` catches up
+  const coinsRef = useRef(user.coins ?? 0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const styleMenuRef = useRef<HTMLDivElement>(null);
+  const promptInputRef = useRef<HTMLInputElement>(null);
+  const personaMenuRef = useRef<HTMLDivElement>(null);
+  const knowledgeMenuRef = useRef<HTMLDivElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
 
 
-  const chatStyles = {
-    Normal: {
-      name: 'Normal',
-      description: 'Default responses from Gemini.',
-      systemInstruction: 'You are a helpful and friendly AI assistant.'
-    },
-    Learning: {
-      name: 'Learning',
-      description: 'Patient, educational responses that build understanding.',
-      systemInstruction: 'You are a patient and educational tutor. Your goal is to help the user build a deep understanding of topics. Use analogies and step-by-step explanations.'
-    },
-    Concise: {
-      name: 'Concise',
-      description: 'Shorter responses & more messages.',
-      systemInstruction: 'You provide concise, short, and to-the-point answers. Avoid verbosity.'
-    },
-    Explanatory: {
-      name: 'Explanatory',
-      description: 'Educational responses for learning.',
-      systemInstruction: 'You provide detailed, explanatory, and educational responses for learning. Break down complex topics into understandable parts.'
-    },
-    Formal: {
-      name: 'Formal',
-      description: 'Clear and well-structured responses.',
-      systemInstruction: 'You respond in a formal, clear, and well-structured manner. Use professional language and formatting.'
-    }
+  const history = useMemo(() => getPath(messages, leafId), [messages, leafId]);
+  const activeConversation = conversations.find(c => c.id === activeId) ?? null;
+
+  // A conversation whose persona is gone (or not loaded yet) keeps the model and
+  // instruction it was saved with.
+  const resolvePersona = (personaId: string, conversation?: Conversation | null): Persona => {
+    const persona = personas.find(p => p.id === personaId);
+    if (persona) return persona;
+    if (!conversation) return BUILT_IN_PERSONAS[0];
+    return {
+      id: personaId,
+      name: 'Saved settings',
+      description: '',
+      model: conversation.model,
+      systemInstruction: conversation.systemInstruction,
+    };
   };
+  const activePersona = resolvePersona(selectedPersonaId, activeConversation);
 
-  useEffect(() => {
-    // Initialize chat and load history when style changes
-    const systemInstruction = chatStyles[selectedStyle as keyof typeof chatStyles].systemInstruction;
-    chatRef.current = geminiService.startChat('gemini-2.5-flash', systemInstruction);
-    
-    const savedHistoryRaw = localStorage.getItem(`nexaneuron-chat-history-${selectedStyle}`);
-    if (savedHistoryRaw) {
-      try {
-        const savedHistory = JSON.parse(savedHistoryRaw);
-        if (Array.isArray(savedHistory)) {
-          setHistory(savedHistory);
-        }
-      } catch (error) {
-        console.error("Failed to parse chat history from localStorage", error);
-        setHistory([]);
+  // Chats start with what the user asked to be remembered, when memory is on
+  const startChatWith = (persona: Persona, messages: ChatMessage[]) => {
+    const systemInstruction = memoryEnabled ? persona.systemInstruction + buildMemoryInstruction(memories) : persona.systemInstruction;
+    return geminiService.startChat({ ...persona, systemInstruction }, messages, getChatToolDeclarations({ memory: memoryEnabled }), generationParams);
+  };
+
+  const startChat = (messages: ChatMessage[]) => startChatWith(activePersona, messages);
+
+  const updateConversation = async (id: string, changes: Partial<Conversation>) => {
+    try {
+      const updated = await conversationStore.update(id, changes);
+      if (updated) {
+        setConversations(prev => sortConversations(prev.map(c => (c.id === id ? updated : c))));
       }
-    } else {
-       setHistory([]); // Clear history if nothing is saved for this style
+    } catch (error) {
+      console.error("Failed to save conversation", error);
     }
-  }, [selectedStyle]);
-  
-  useEffect(() => {
-    // Save history to localStorage whenever it changes
-    const storageKey = `nexaneuron-chat-history-${selectedStyle}`;
-    if (history.length > 0) {
-      localStorage.setItem(storageKey, JSON.stringify(history));
-    } else {
-      localStorage.removeItem(storageKey);
+  };
+
+  const stopAudio = () => {
+    if (audioSourceRef.current && audioState.status !== 'idle') {
+      audioSourceRef.current.stop();
+      setAudioState({ index: null, status: 'idle' });
     }
-  }, [history, selectedStyle]);
+  };
 
+  // Shows `conversation` (or a blank chat) and gives the model the same context.
+  const openConversation = (conversation: Conversation | null) => {
+    if (loading) {
+      // Keep the partial reply of the conversation being left
+      const kept = handleStop();
+      if (activeId) updateConversation(activeId, { ...kept, updatedAt: Date.now() });
+    }
+    stopAudio();
+    const tree = normalizeTree(conversation?.messages ?? []);
+    const leaf = conversation?.leafId ?? getLatestLeaf(tree, null);
+    setActiveId(conversation?.id ?? null);
+    setMessages(tree);
+    setLeafId(leaf);
+    if (conversation) setSelectedPersonaId(conversation.personaId);
+    setPrompt('');
+    clearAttachments();
+    setEditing(null);
+    setIsSidebarOpen(false);
+
+    const restoreId = ++restoreIdRef.current;
+    const persona = conversation ? resolvePersona(conversation.personaId, conversation) : activePersona;
+    chatRef.current = null;
+    chatOutOfSyncRef.current = false;
+    startChatWith(persona, getPath(tree, leaf))
+      .catch(error => {
+        console.error("Failed to restore chat context, starting without it", error);
+        return startChatWith(persona, []);
+      })
+      .then(chat => {
+        if (restoreIdRef.current === restoreId) chatRef.current = chat;
+      })
+      .catch(error => {
+        // Without a chat nothing can be sent, so say why
+        console.error("Failed to start the chat", error);
+        if (restoreIdRef.current === restoreId) {
+          setComposerErrors([describeError(error, "The chat couldn't be started. Open the conversation again to retry.")]);
+        }
+      });
+  };
+
+  useEffect(() => {
+    // Reopen the most recent conversation, as the single saved chat used to be
+    conversationStore.list()
+      .then(saved => {
+        setConversations(saved);
+        const mostRecent = [...saved].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+        openConversation(mostRecent ?? null);
+      })
+      .catch(error => {
+        console.error("Failed to load conversations", error);
+        openConversation(null);
+      });
+  }, []);
+
+  useEffect(() => {
+    coinsRef.current = user.coins ?? 0;
+  }, [user.coins]);
+
+  useEffect(() => {
+    personaStore.list(user)
+      .then(list => {
+        setPersonas(list);
+        // The open chat may have started before its custom persona was known
+        chatOutOfSyncRef.current = true;
+      })
+      .catch(error => console.error("Failed to load personas", error));
+    templateStore.list(user)
+      .then(setTemplates)
+      .catch(error => console.error("Failed to load templates", error));
+    Promise.all([memoryStore.isEnabled(user), memoryStore.list(user)])
+      .then(([enabled, saved]) => {
+        setMemoryEnabled(enabled);
+        setMemories(saved);
+        chatOutOfSyncRef.current = true;
+      })
+      .catch(error => console.error("Failed to load memories", error));
+  }, [user.uid]);
+
+  useEffect(() => {
+    knowledgeBase.listCollections()
+      .then(setKnowledgeCollections)
+      .catch(error => console.error("Failed to load knowledge base collections", error));
+  }, []);
+
+  useEffect(() => {
+    // Save the active conversation whenever its messages change, but not on every streamed chunk
+    if (loading || !activeConversation) return;
+    const messagesChanged = activeConversation.messages !== messages;
+    if (!messagesChanged && activeConversation.leafId === leafId) return;
+    updateConversation(activeConversation.id, { messages, leafId, ...(messagesChanged && { updatedAt: Date.now() }) });
+  }, [messages, leafId, loading, activeId]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [history]);
 
+  useEffect(() => {
+    if (loading || prompt.startsWith('/') || (!prompt.trim() && attachments.length === 0)) {
+      setRequestTokens(null);
+      return;
+    }
+    let cancelled = false;
+    // Wait for a pause in typing rather than counting every keystroke
+    const timer = setTimeout(() => {
+      geminiService.countRequestTokens(activePersona.model, history, prompt, attachments)
+        .then(tokens => !cancelled && setRequestTokens(tokens))
+        .catch(error => console.error("Failed to count tokens", error));
+    }, TOKEN_COUNT_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [prompt, attachments, history, activePersona.model, loading]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
-      if (styleMenuRef.current && !styleMenuRef.current.contains(event.target as Node)) {
-        setIsStyleMenuOpen(false);
+      if (personaMenuRef.current && !personaMenuRef.current.contains(event.target as Node)) {
+        setIsPersonaMenuOpen(false);
+      }
+      if (knowledgeMenuRef.current && !knowledgeMenuRef.current.contains(event.target as Node)) {
+        setIsKnowledgeMenuOpen(false);
       }
     };
     document.addEventListener('mousedown', handleClickOutside);
@@ -190,63 +289,523 @@ const Chatbot: React.FC = () => {
     };
   }, []);
 
-  const removeImage = () => {
-    setImage(null);
-    if (imagePreview) {
-        URL.revokeObjectURL(imagePreview);
-        setImagePreview(null);
-    }
+  const clearAttachments = () => {
+    setAttachments([]);
+    setComposerErrors([]);
     if (fileInputRef.current) {
         fileInputRef.current.value = '';
     }
   };
 
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const { attachments: added, errors } = await readAttachments(files, attachments);
+    setAttachments(prev => [...prev, ...added]);
+    setComposerErrors(errors);
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(attachment => attachment.id !== id));
+    setComposerErrors([]);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-        const file = e.target.files[0];
-        // Clean up previous preview
-        if (imagePreview) {
-            URL.revokeObjectURL(imagePreview);
-        }
-        setImage(file);
-        setImagePreview(URL.createObjectURL(file));
-    }
+    addFiles(Array.from(e.target.files ?? []));
+    // Lets the same file be picked again after it was removed
+    e.target.value = '';
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from<File>(e.clipboardData.files);
+    if (files.length === 0) return;
     e.preventDefault();
-    if ((!prompt.trim() && !image) || loading || !chatRef.current) return;
+    addFiles(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (loading || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore moves between child elements
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!loading) addFiles(Array.from<File>(e.dataTransfer.files));
+  };
+
+  // Streams a reply to `userMessage`, adding it to the tree unless it is already
+  // there (regenerate). `context` is the branch above `userMessage`; when given,
+  // the chat is rebuilt from it so the model sees exactly that branch.
+  // A slash `command` produces the reply itself instead of the chat.
+  const streamReply = async (
+    userMessage: ChatMessage,
+    isNewUserMessage: boolean,
+    context: ChatMessage[] | null,
+    command?: (replyId: string, signal: AbortSignal) => Promise<string>,
+  ) => {
+    let conversationId = activeId;
+    const isFirstExchange = isNewUserMessage && history.length === 0;
+    if (!conversationId) {
+      const conversation = { ...createConversation(activePersona), title: userMessage.parts[0].text.trim().slice(0, 40) || userMessage.attachments?.[0]?.name || 'New chat' };
+      conversationId = conversation.id;
+      try {
+        await conversationStore.save(conversation);
+      } catch (error) {
+        console.error("Failed to save conversation", error);
+      }
+      setConversations(prev => sortConversations([conversation, ...prev]));
+      setActiveId(conversation.id);
+    }
 
-    const userMessage: ChatMessage = { role: 'user', parts: [{ text: prompt }], imagePreview: imagePreview };
-    setHistory(prev => [...prev, userMessage]);
+    // The empty model message is filled in as chunks arrive
+    const reply: ChatMessage = { id: crypto.randomUUID(), parentId: userMessage.id, role: 'model', parts: [{ text: '' }], timestamp: Date.now() };
+    setMessages(prev => [...prev, ...(isNewUserMessage ? [userMessage] : []), reply]);
+    setLeafId(reply.id!);
     setLoading(true);
-    
-    const currentPrompt = prompt;
-    const currentImage = image;
 
-    setPrompt('');
-    removeImage();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const setReplyText = (text: string) => {
+      setMessages(prev => prev.map(msg => (msg.id === reply.id ? { ...msg, parts: [{ text }] } : msg)));
+    };
+    const onFunctionCall = (call: FunctionCall) => handleFunctionCall(reply.id!, call, controller.signal);
 
+    let text = '';
     try {
-      const result = await geminiService.sendMessageToChat(chatRef.current, currentPrompt, currentImage);
-      const modelMessage: ChatMessage = { role: 'model', parts: [{ text: result }] };
-      setHistory(prev => [...prev, modelMessage]);
+      if (command) {
+        text = await command(reply.id!, controller.signal);
+        if (!controller.signal.aborted) setReplyText(text);
+        // The chat session didn't see this exchange
+        chatOutOfSyncRef.current = true;
+      } else {
+        if (context || chatOutOfSyncRef.current) {
+          chatRef.current = await startChat(context ?? history);
+          chatOutOfSyncRef.current = false;
+        }
+        let outgoing = userMessage.parts[0].text;
+        if (knowledgeCollection && outgoing.trim()) {
+          const results = await knowledgeBase.search(outgoing, knowledgeCollection)
+            .catch(error => {
+              console.error("Knowledge base search failed, answering without it", error);
+              return [];
+            });
+          const citations = results.map(toCitation);
+          if (citations.length > 0) {
+            setMessages(prev => prev.map(msg => (msg.id === reply.id ? { ...msg, citations } : msg)));
+            outgoing = buildGroundedPrompt(outgoing, citations);
+          }
+        }
+        const onUsage = (usage: TokenUsage) => setMessages(prev => prev.map(msg => (msg.id === reply.id ? { ...msg, usage } : msg)));
+        const stream = geminiService.sendMessageToChatStream(chatRef.current!, outgoing, getMessageAttachments(userMessage), { signal: controller.signal, onFunctionCall, onUsage });
+        for await (const chunk of stream) {
+          if (controller.signal.aborted) break;
+          text += chunk;
+          setReplyText(text);
+        }
+      }
+      if (isFirstExchange && text && !controller.signal.aborted) {
+        geminiService.generateChatTitle(userMessage.parts[0].text, text, controller.signal)
+          .then(title => title && updateConversation(conversationId, { title }))
+          .catch(error => console.error("Failed to generate a chat title", error));
+      }
+    } catch (error) {
+      // Start over from the saved branch, possibly on a fallback model
+      chatOutOfSyncRef.current = true;
+      if (error instanceof ResponseBlockedError) {
+        // Keep any text that arrived before the reply was stopped
+        setMessages(prev => prev.map(msg => (msg.id === reply.id ? { ...msg, safety: error.feedback } : msg)));
+      } else if (!controller.signal.aborted) {
+        console.error(error);
+        setReplyText(text
+          ? `${text}\n\n_Sorry, the response was interrupted. ${describeError(error)}_`
+          : `Sorry, I couldn't reply. ${describeError(error)}`);
+      }
+    } finally {
+      // A stopped stream may settle after a newer message has started
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  const updateToolCall = (replyId: string, callId: string, changes: Partial<ToolCallRecord>) => {
+    setMessages(prev => prev.map(msg => (msg.id === replyId
+      ? { ...msg, toolCalls: msg.toolCalls?.map(call => (call.id === callId ? { ...call, ...changes } : call)) }
+      : msg)));
+  };
+
+  // Coins are only deducted once a paid tool has succeeded, as in the Image
+  // Generator, and only from the balance shown once Firestore has taken them.
+  const chargeCoins = async (cost: number) => {
+    if (!user.isGuest) {
+      const userRef = doc(db, 'users', user.uid);
+      await updateDoc(userRef, { coins: increment(-cost) });
+    }
+    coinsRef.current -= cost;
+    onUpdateCoins(coinsRef.current);
+  };
+
+  // Runs one function call from the model, asking first when it costs coins or
+  // needs approval, and returns what is sent back to the model.
+  const handleFunctionCall = async (replyId: string, call: FunctionCall, signal: AbortSignal): Promise<Record<string, unknown>> => {
+    const tool = call.name ? CHAT_TOOLS[call.name] : undefined;
+    const cost = tool?.cost && !user.isPremium ? tool.cost : undefined;
+    const needsApproval = !!cost || !!tool?.approval;
+    const record: ToolCallRecord = {
+      id: call.id ?? crypto.randomUUID(),
+      name: call.name ?? 'unknown',
+      args: call.args ?? {},
+      status: needsApproval ? 'awaiting-confirmation' : 'running',
+      cost,
+    };
+    setMessages(prev => prev.map(msg => (msg.id === replyId ? { ...msg, toolCalls: [...(msg.toolCalls ?? []), record] } : msg)));
+
+    if (!tool) {
+      updateToolCall(replyId, record.id, { status: 'error', error: `There is no tool called "${record.name}".` });
+      return { error: `Unknown tool "${record.name}".` };
+    }
+    // Set aside from the moment it's offered, so background jobs and other
+    // tool calls can't spend the same coins meanwhile
+    let releaseCoins: (() => void) | undefined;
+    if (needsApproval) {
+      const available = coinsRef.current - jobManager.getReservedCoins(user.uid);
+      if (cost && available < cost) {
+        updateToolCall(replyId, record.id, { status: 'error', error: `This needs ${cost} coins. You have ${available} not already set aside for running jobs.` });
+        return { error: 'The user does not have enough coins for this tool.' };
+      }
+      if (cost) releaseCoins = jobManager.reserveCoins(user.uid, cost);
+      const approved = await new Promise<boolean>(resolve => confirmationsRef.current.set(record.id, resolve));
+      confirmationsRef.current.delete(record.id);
+      if (!approved) {
+        releaseCoins?.();
+        updateToolCall(replyId, record.id, { status: 'declined' });
+        return { error: 'The user chose not to run this tool.' };
+      }
+      updateToolCall(replyId, record.id, { status: 'running' });
+    }
+
+    try {
+      const output = await tool.run(record.args, { user, signal });
+      // Stopping the reply discards the result, so it isn't charged
+      if (signal.aborted) throw new DOMException('The request was cancelled.', 'AbortError');
+      // The user approved the result, so it's kept even if the charge fails
+      const chargeError = cost
+        ? await chargeCoins(cost).then(() => undefined, error => {
+            console.error("Failed to charge coins for a tool", error);
+            return "It ran, but your coins couldn't be charged for it.";
+          })
+        : undefined;
+      if (record.name === MEMORY_TOOL_NAME) memoryStore.list(user).then(setMemories).catch(console.error);
+      updateToolCall(replyId, record.id, { status: 'done', result: output.response, images: output.images, audio: output.audio, error: chargeError });
+      return output.response;
     } catch (error) {
       console.error(error);
-      const errorMessage: ChatMessage = { role: 'model', parts: [{ text: "Sorry, I encountered an error. Please try again." }] };
-      setHistory(prev => [...prev, errorMessage]);
+      const message = describeError(error, 'The tool failed.');
+      updateToolCall(replyId, record.id, { status: 'error', error: message });
+      return { error: message };
     } finally {
-      setLoading(false);
+      releaseCoins?.();
     }
   };
+
+  // Open while the first word of the prompt is a "/" command being typed
+  const paletteItems = !isPaletteDismissed && !loading && /^\/\S*$/.test(prompt)
+    ? getPaletteItems(prompt.slice(1), templates)
+    : null;
+
+  const requestCost = requestTokens === null
+    ? undefined
+    : estimateCost({ model: resolveModel('chat', activePersona.model), promptTokens: requestTokens, candidatesTokens: 0, thinkingTokens: 0 });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((!prompt.trim() && attachments.length === 0) || loading || !chatRef.current) return;
+
+    const slashCommand = attachments.length === 0 ? parseSlashCommand(prompt) : null;
+    if (slashCommand && isSlashCommandName(slashCommand.name)) {
+      setPrompt('');
+      await runSlashCommand(slashCommand.name, slashCommand.args, prompt.trim());
+      return;
+    }
+    const template = slashCommand && !slashCommand.args && templates.find(t => templateCommand(t) === slashCommand.name);
+    if (template) {
+      openTemplate(template);
+      return;
+    }
+
+    const text = prompt;
+    const sent = attachments;
+    setPrompt('');
+    clearAttachments();
+    await sendUserMessage(text, sent);
+  };
+
+  const sendUserMessage = async (
+    text: string,
+    messageAttachments: Attachment[] = [],
+    command?: (replyId: string, signal: AbortSignal) => Promise<string>,
+  ) => {
+    const userMessage: ChatMessage = {
+      id: crypto.randomUUID(),
+      parentId: history[history.length - 1]?.id ?? null,
+      role: 'user',
+      parts: [{ text }],
+      ...(messageAttachments.length > 0 && { attachments: messageAttachments }),
+      timestamp: Date.now(),
+    };
+    await streamReply(userMessage, true, null, command);
+  };
+
+  // Runs a built-in "/" command. The ones that answer are added to the chat
+  // like any other exchange.
+  const runSlashCommand = async (name: SlashCommandName, args: string, text: string) => {
+    const { usage } = SLASH_COMMANDS.find(command => command.name === name)!;
+    if (usage && !args) {
+      setComposerErrors([`Usage: /${name} ${usage}`]);
+      return;
+    }
+    setComposerErrors([]);
+
+    switch (name) {
+      case 'clear':
+        handleNewChat();
+        return;
+      case 'style': {
+        const needle = args.toLowerCase();
+        const persona = personas.find(p => p.name.toLowerCase() === needle)
+          ?? personas.find(p => p.name.toLowerCase().startsWith(needle));
+        if (persona) handlePersonaChange(persona);
+        else setComposerErrors([`There is no persona called "${args}".`]);
+        return;
+      }
+      case 'summarize':
+        if (history.length === 0) {
+          setComposerErrors(['There is nothing to summarize yet.']);
+          return;
+        }
+        await sendUserMessage(text, [], (_, signal) => geminiService.summarizeConversation(history, signal));
+        return;
+      case 'translate': {
+        const [, language, rest] = args.match(/^(\S+)\s*([\s\S]*)$/)!;
+        const source = rest || [...history].reverse().find(msg => msg.role === 'model')?.parts[0].text;
+        if (!source) {
+          setComposerErrors(['Add the text to translate, e.g. /translate French Good morning.']);
+          return;
+        }
+        await sendUserMessage(text, [], (_, signal) => geminiService.translate(source, language, signal));
+        return;
+      }
+      case 'search':
+        await sendUserMessage(text, [], async (_, signal) => {
+          const { text: answer, sources } = await geminiService.groundedSearch(args, false, null, signal);
+          const links = sources.map(source => `- [${source.title || source.uri}](${source.uri})`);
+          return links.length ? `${answer}\n\n**Sources**\n${links.join('\n')}` : answer;
+        });
+        return;
+      // These go through the tool runner, which asks before spending coins and shows the result
+      case 'image':
+      case 'tts':
+        await sendUserMessage(text, [], async (replyId, signal) => {
+          const toolName = name === 'image' ? 'generate_image' : 'text_to_speech';
+          const toolArgs = name === 'image' ? { prompt: args } : { text: args };
+          await handleFunctionCall(replyId, { id: crypto.randomUUID(), name: toolName, args: toolArgs }, signal);
+          return '';
+        });
+        return;
+    }
+  };
+
+  const openTemplate = (template: PromptTemplate) => {
+    if (extractVariables(template.body).length > 0) {
+      setActiveTemplate(template);
+    } else {
+      setPrompt(template.body);
+      promptInputRef.current?.focus();
+    }
+  };
+
+  const handleTemplateSubmit = (filled: string) => {
+    setActiveTemplate(null);
+    setPrompt(filled);
+    promptInputRef.current?.focus();
+  };
+
+  const handlePaletteSelect = (item: PaletteItem) => {
+    if (item.kind === 'template') {
+      setPrompt('');
+      openTemplate(item.template);
+    } else if (item.command.usage) {
+      setPrompt(`/${item.command.name} `);
+      promptInputRef.current?.focus();
+    } else {
+      setPrompt('');
+      runSlashCommand(item.command.name, '', `/${item.command.name}`);
+    }
+  };
+
+  const handlePromptKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (paletteItems === null || paletteItems.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setPaletteIndex(prev => (prev + step + paletteItems.length) % paletteItems.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      handlePaletteSelect(paletteItems[Math.min(paletteIndex, paletteItems.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setIsPaletteDismissed(true);
+    }
+  };
+
+  const handleSaveTemplate = async (template: PromptTemplate) => {
+    await templateStore.save(user, template);
+    setTemplates(prev => [...prev.filter(t => t.id !== template.id), template]
+      .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name)));
+  };
+
+  const handleDeleteTemplate = async (template: PromptTemplate) => {
+    await templateStore.delete(user, template.id);
+    setTemplates(prev => prev.filter(t => t.id !== template.id));
+  };
+
+  const handleImportTemplates = async (imported: PromptTemplate[]) => {
+    for (const template of imported) {
+      await handleSaveTemplate(template);
+    }
+  };
+
+  const handleSendPreviewError = (report: string) => {
+    setPreviewFiles(null);
+    sendUserMessage(report);
+  };
+
+  // Sends the edited prompt as a new branch beside the original.
+  const handleEditSubmit = async (message: ChatMessage) => {
+    if (!editing?.text.trim() || loading) return;
+    const index = history.findIndex(msg => msg.id === message.id);
+    const edited: ChatMessage = { ...message, id: crypto.randomUUID(), parts: [{ text: editing.text }], timestamp: Date.now() };
+    setEditing(null);
+    await streamReply(edited, true, history.slice(0, index));
+  };
+
+  // Asks for another answer to the same prompt, as a new branch beside this reply.
+  const handleRegenerate = async (message: ChatMessage) => {
+    if (loading) return;
+    const index = history.findIndex(msg => msg.id === message.id);
+    await streamReply(history[index - 1], false, history.slice(0, index - 1));
+  };
+
+  const handleSelectBranch = (message: ChatMessage) => {
+    setLeafId(getLatestLeaf(messages, message.id!));
+    chatOutOfSyncRef.current = true;
+  };
+
+  // Returns what is kept, so a caller leaving the conversation can save it right away.
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    confirmationsRef.current.forEach(resolve => resolve(false));
+    // The session never recorded the stopped turn; the next message rebuilds it
+    // from what is on screen, partial reply included
+    chatOutOfSyncRef.current = true;
+    setLoading(false);
+    // Keep whatever arrived; drop the placeholder if nothing did
+    const reply = messages.find(msg => msg.id === leafId);
+    if (reply?.role === 'model' && !reply.parts[0].text && !reply.toolCalls?.length) {
+      const kept = { messages: messages.filter(msg => msg.id !== reply.id), leafId: reply.parentId ?? null };
+      setMessages(kept.messages);
+      setLeafId(kept.leafId);
+      return kept;
+    }
+    return { messages, leafId };
+  };
   
   const handleNewChat = () => {
-    setHistory([]);
-    setPrompt('');
-    removeImage();
-    if (audioSourceRef.current && audioState.status !== 'idle') {
-      audioSourceRef.current.stop();
-      setAudioState({ index: null, status: 'idle' });
+    openConversation(null);
+  };
+
+  const handlePersonaChange = (persona: Persona) => {
+    setSelectedPersonaId(persona.id);
+    chatOutOfSyncRef.current = true;
+    if (activeId) {
+      updateConversation(activeId, { personaId: persona.id, model: persona.model, systemInstruction: persona.systemInstruction });
+    }
+  };
+
+  const handleGenerationParamsChange = (params: GenerationParams) => {
+    setGenerationParams(params);
+    chatOutOfSyncRef.current = true;
+  };
+
+  const handleSavePersona = async (persona: Persona) => {
+    await personaStore.save(user, persona);
+    setPersonas(prev => prev.some(p => p.id === persona.id)
+      ? prev.map(p => (p.id === persona.id ? persona : p))
+      : [...prev, persona]);
+    if (persona.id === selectedPersonaId) handlePersonaChange(persona);
+  };
+
+  const handleDeletePersona = async (persona: Persona) => {
+    await personaStore.delete(user, persona.id);
+    setPersonas(prev => prev.filter(p => p.id !== persona.id));
+    if (persona.id === selectedPersonaId) handlePersonaChange(BUILT_IN_PERSONAS[0]);
+  };
+
+  const handleImportPersonas = async (imported: Persona[]) => {
+    for (const persona of imported) {
+      await personaStore.save(user, persona);
+    }
+    setPersonas(prev => [...prev, ...imported]);
+  };
+
+  const handleDeleteConversation = async (conversation: Conversation) => {
+    if (!window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return;
+    try {
+      await conversationStore.delete(conversation.id);
+      setConversations(prev => prev.filter(c => c.id !== conversation.id));
+      if (conversation.id === activeId) openConversation(null);
+    } catch (error) {
+      console.error("Failed to delete conversation", error);
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!activeConversation) return;
+    // The open chat may be ahead of the saved copy
+    const conversation = { ...activeConversation, messages, leafId };
+    switch (format) {
+      case 'markdown':
+        downloadBlob(new Blob([toMarkdown(conversation)], { type: 'text/markdown;charset=utf-8' }), exportFileName(conversation, 'md'));
+        break;
+      case 'html':
+        downloadBlob(new Blob([toHtml(conversation)], { type: 'text/html;charset=utf-8' }), exportFileName(conversation, 'html'));
+        break;
+      case 'json':
+        downloadBlob(new Blob([toJson(conversation)], { type: 'application/json' }), exportFileName(conversation, 'json'));
+        break;
+      case 'pdf':
+        printConversation(conversation);
+        break;
+    }
+  };
+
+  const handleImportConversation = async (file: File) => {
+    try {
+      const conversation = parseConversation(await file.text());
+      await conversationStore.save(conversation);
+      setConversations(prev => sortConversations([conversation, ...prev]));
+      openConversation(conversation);
+    } catch (error) {
+      console.error("Failed to import conversation", error);
+      alert(error instanceof Error ? error.message : 'The chat could not be imported.');
     }
   };
 
@@ -260,14 +819,7 @@ const Chatbot: React.FC = () => {
   };
 
   const handleDownload = (text: string, index: number) => {
-    const blob = new Blob([text], { type: 'text/plain;charset=utf-8' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `NexaNeuron-chat-${index + 1}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(link.href);
+    downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8' }), `NexaNeuron-chat-${index + 1}.txt`);
   };
 
   const handleListen = async (text: string, index: number) => {
@@ -308,18 +860,29 @@ const Chatbot: React.FC = () => {
   };
 
   const renderMessageContent = (rawText: string, index: number) => {
-    const parts = rawText.split(/(```(?:[\w\d-]*)\n(?:[\s\S]+?)\n```)/g).filter(part => part);
+    // A fence that is still open at the end of the text (mid-stream) counts as a code block too
+    const parts = rawText.split(/(```[\w\d-]*(?:\n[\s\S]*?)?(?:\n```|$))/g).filter(part => part);
 
     return parts.map((part, i) => {
-        const isCodeBlock = part.startsWith('```') && part.endsWith('```');
+        const isCodeBlock = part.startsWith('```');
 
         if (isCodeBlock) {
-            const codeMatch = part.match(/```(?:[\w\d-]*)\n([\s\S]+?)\n```/);
+            const isClosed = part.length > 3 && /\n```$/.test(part);
+            const codeMatch = part.match(/^```[\w\d-]*\n?([\s\S]*?)(?:\n```)?$/);
             const codeContent = codeMatch ? codeMatch[1] : '';
             const langMatch = part.match(/```([\w\d-]*)/);
             const language = langMatch ? langMatch[1] : '';
             
-            const canPreview = ['html', 'javascript', 'js', 'css', 'xml', 'svg'].includes(language.toLowerCase());
+            const canPreview = isClosed && isPreviewLanguage(language);
+            const copyButton = (
+                <button onClick={() => handleCopy(codeContent, 'code', index)} className="p-1 hover:text-white rounded" title="Copy Code">
+                    {copiedStates[`code-${index}`] ? <CheckIcon className="w-4 h-4 text-green-500" /> : <ClipboardIcon className="w-4 h-4" />}
+                </button>
+            );
+
+            if (isClosed && language.toLowerCase() === 'mermaid') {
+                return <MermaidDiagram key={`${index}-${i}`} code={codeContent} actions={copyButton} />;
+            }
 
             return (
                 <div key={`${index}-${i}`} className="relative group/code my-2 rounded-lg bg-gray-900/80 dark:bg-black/80 overflow-hidden border border-white/10">
@@ -327,18 +890,16 @@ const Chatbot: React.FC = () => {
                         <span>{language || 'code'}</span>
                         <div className="flex items-center gap-2">
                             {canPreview && (
-                                <button onClick={() => setPreviewCode(codeContent)} className="p-1 hover:text-white rounded" title="Preview Code">
+                                <button onClick={() => setPreviewFiles(extractCodeFiles(rawText))} className="p-1 hover:text-white rounded" title="Preview Code">
                                     <EyeIcon className="w-4 h-4" />
                                 </button>
                             )}
-                            <button onClick={() => handleCopy(codeContent, 'code', index)} className="p-1 hover:text-white rounded" title="Copy Code">
-                                {copiedStates[`code-${index}`] ? <CheckIcon className="w-4 h-4 text-green-500" /> : <ClipboardIcon className="w-4 h-4" />}
-                            </button>
+                            {copyButton}
                         </div>
                     </div>
                     <div 
                         className="prose dark:prose-invert max-w-none prose-pre:bg-transparent prose-pre:p-4 prose-pre:my-0 text-sm"
-                        dangerouslySetInnerHTML={{ __html: geminiService.formatResponse(part) }} 
+                        dangerouslySetInnerHTML={{ __html: geminiService.formatResponse(isClosed ? part : `${part}\n\`\`\``) }} 
                     />
                 </div>
             )
@@ -354,14 +915,127 @@ const Chatbot: React.FC = () => {
     });
 };
 
+  const renderAttachments = (messageAttachments: Attachment[]) => {
+    if (messageAttachments.length === 0) return null;
+    const images = messageAttachments.filter(attachment => attachment.kind === 'image');
+    const files = messageAttachments.filter(attachment => attachment.kind !== 'image');
+    return (
+      <div className="mb-2 space-y-2">
+        {images.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {images.map(attachment => (
+              <img key={attachment.id} src={attachment.dataUrl} alt={attachment.name} className="rounded-lg max-w-xs max-h-48" />
+            ))}
+          </div>
+        )}
+        {files.map(attachment => (
+          <a key={attachment.id} href={attachment.dataUrl} download={attachment.name} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-black/10 dark:bg-white/10 text-sm hover:bg-black/20 dark:hover:bg-white/20">
+            <DocumentTextIcon className="w-5 h-5 flex-shrink-0" />
+            <span className="truncate">{attachment.name}</span>
+            <span className="flex-shrink-0 text-xs opacity-70">{formatBytes(attachment.size)}</span>
+          </a>
+        ))}
+      </div>
+    );
+  };
+
+  const renderUsage = (usage: TokenUsage) => {
+    const cost = estimateCost(usage);
+    return (
+      <span
+        className="px-1.5 text-xs text-gray-500 dark:text-gray-400"
+        title={`${usage.model}: ${formatTokens(usage.promptTokens)} prompt, ${formatTokens(usage.candidatesTokens)} output and ${formatTokens(usage.thinkingTokens)} thinking tokens`}
+      >
+        {formatTokens(usage.totalTokens)} tokens{cost !== undefined && ` · ${formatCost(cost)}`}
+      </span>
+    );
+  };
+
+  // "‹ 2 / 3 ›" between versions of a message created by edit or regenerate
+  const renderBranchNav = (msg: ChatMessage) => {
+    const siblings = getChildren(messages, msg.parentId ?? null);
+    if (siblings.length < 2) return null;
+    const position = siblings.findIndex(sibling => sibling.id === msg.id);
+    return (
+      <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+        <button onClick={() => handleSelectBranch(siblings[position - 1])} disabled={loading || position === 0} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent" title="Previous version">
+          <ChevronLeftIcon className="w-3.5 h-3.5" />
+        </button>
+        <span className="tabular-nums">{position + 1} / {siblings.length}</span>
+        <button onClick={() => handleSelectBranch(siblings[position + 1])} disabled={loading || position === siblings.length - 1} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent" title="Next version">
+          <ChevronRightIcon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    );
+  };
+
   return (
-    <div className="flex flex-col h-full bg-white/60 dark:bg-gray-900/60 backdrop-blur-lg rounded-lg border border-gray-200/50 dark:border-gray-700/50">
-      {previewCode && <CodePreviewModal code={previewCode} onClose={() => setPreviewCode(null)} />}
-      <div className="p-4 flex-shrink-0 border-b border-gray-200/50 dark:border-gray-700/50 flex justify-between items-center">
-        <div>
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">NexaNeuron Ai</h2>
-            <p className="text-sm text-gray-500 dark:text-gray-300">Style: <span className="font-medium text-indigo-600 dark:text-indigo-400">{selectedStyle}</span></p>
+    <div
+      className="relative flex h-full bg-white/60 dark:bg-gray-900/60 backdrop-blur-lg rounded-lg border border-gray-200/50 dark:border-gray-700/50 overflow-hidden"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center bg-indigo-600/10 border-2 border-dashed border-indigo-500 rounded-lg pointer-events-none">
+          <p className="px-4 py-2 rounded-full bg-white dark:bg-gray-800 text-sm font-medium text-indigo-600 dark:text-indigo-400 shadow">Drop files to attach</p>
         </div>
+      )}
+      {previewFiles && (
+        <CodePreviewModal
+          files={previewFiles}
+          onClose={() => setPreviewFiles(null)}
+          onSendError={loading || !chatRef.current ? undefined : handleSendPreviewError}
+        />
+      )}
+      {isTemplateLibraryOpen && (
+        <TemplateLibrary
+          templates={templates}
+          onSave={handleSaveTemplate}
+          onDelete={handleDeleteTemplate}
+          onImport={handleImportTemplates}
+          onClose={() => setIsTemplateLibraryOpen(false)}
+        />
+      )}
+      {activeTemplate && (
+        <TemplateForm template={activeTemplate} onSubmit={handleTemplateSubmit} onClose={() => setActiveTemplate(null)} />
+      )}
+      {isPersonaEditorOpen && (
+        <PersonaEditor
+          personas={personas}
+          initialId={activePersona.id}
+          onSave={handleSavePersona}
+          onDelete={handleDeletePersona}
+          onImport={handleImportPersonas}
+          onClose={() => setIsPersonaEditorOpen(false)}
+        />
+      )}
+      <ConversationSidebar
+        isOpen={isSidebarOpen}
+        conversations={conversations}
+        activeId={activeId}
+        onSelect={openConversation}
+        onRename={(id, title) => updateConversation(id, { title })}
+        onTogglePin={(conversation) => updateConversation(conversation.id, { pinned: !conversation.pinned })}
+        onDelete={handleDeleteConversation}
+      />
+      <div className="flex-1 flex flex-col min-w-0">
+      <div className="p-4 flex-shrink-0 border-b border-gray-200/50 dark:border-gray-700/50 flex justify-between items-center gap-2">
+        <div className="flex items-center gap-3 min-w-0">
+            <button
+                onClick={() => setIsSidebarOpen(open => !open)}
+                className="md:hidden p-1.5 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full"
+                aria-label="Toggle conversation list"
+            >
+                <ChatBubbleLeftRightIcon />
+            </button>
+            <div className="min-w-0">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white truncate">{activeConversation?.title ?? 'NexaNeuron Ai'}</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-300">Persona: <span className="font-medium text-indigo-600 dark:text-indigo-400">{activePersona.name}</span></p>
+            </div>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+        <ExportMenu canExport={!!activeConversation && history.length > 0} onExport={handleExport} onImport={handleImportConversation} />
         <button
             onClick={handleNewChat}
             className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
@@ -370,24 +1044,80 @@ const Chatbot: React.FC = () => {
             <PlusIcon className="w-4 h-4" />
             New Chat
         </button>
+        </div>
       </div>
       <div className="flex-1 p-4 overflow-y-auto space-y-2">
+        {history.length === 0 && activePersona.greeting && (
+          <div className="flex items-start gap-4">
+            <Logo className="flex-shrink-0 w-8 h-8" showText={false} />
+            <div className="px-4 py-3 rounded-2xl max-w-lg bg-gray-200 dark:bg-gray-800 text-gray-800 dark:text-gray-100 rounded-bl-none">
+              {renderMessageContent(activePersona.greeting, -1)}
+            </div>
+          </div>
+        )}
         {history.map((msg, index) => {
           const rawText = msg.parts[0].text;
+          const isStreaming = loading && index === history.length - 1 && msg.role === 'model';
+          const isEditing = editing?.id === msg.id;
+          // The streaming placeholder is shown as the typing indicator below until something arrives
+          if (isStreaming && !rawText && !msg.toolCalls?.length) return null;
           
           return (
-            <div key={index} className={`flex items-start gap-4 ${msg.role === 'user' ? 'justify-end' : ''}`}>
+            <div key={msg.id ?? index} className={`flex items-start gap-4 ${msg.role === 'user' ? 'justify-end' : ''}`}>
               {msg.role === 'model' && <Logo className="flex-shrink-0 w-8 h-8" showText={false} />}
-              <div className="group flex flex-col items-start gap-1">
+              <div className="group flex flex-col items-start gap-1" title={msg.timestamp ? new Date(msg.timestamp).toLocaleString() : undefined}>
+                {isEditing ? (
+                  <form onSubmit={(e) => { e.preventDefault(); handleEditSubmit(msg); }} className="w-full max-w-lg flex flex-col gap-2">
+                    <textarea
+                      autoFocus
+                      rows={3}
+                      value={editing.text}
+                      onChange={(e) => setEditing({ id: editing.id, text: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+                      className="w-full min-w-[16rem] p-3 rounded-2xl bg-gray-100 dark:bg-gray-800 border border-indigo-500 text-gray-900 dark:text-white focus:outline-none resize-y"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button type="button" onClick={() => setEditing(null)} className="px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700">
+                        Cancel
+                      </button>
+                      <button type="submit" disabled={loading || !editing.text.trim()} className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded-full hover:bg-indigo-500 disabled:opacity-50">
+                        Send
+                      </button>
+                    </div>
+                  </form>
+                ) : (
                 <div className={`px-4 py-3 rounded-2xl max-w-lg ${msg.role === 'user' ? 'bg-indigo-600 text-white rounded-br-none' : 'bg-gray-200 dark:bg-gray-800 text-gray-800 dark:text-gray-100 rounded-bl-none'}`}>
-                  {msg.imagePreview && (
-                      <img src={msg.imagePreview} alt="User upload" className="rounded-lg mb-2 max-w-xs max-h-48" />
-                  )}
+                  {renderAttachments(getMessageAttachments(msg))}
+                  {msg.toolCalls?.map(call => (
+                      <ToolCallCard
+                        key={call.id}
+                        call={call}
+                        onConfirm={(approved) => confirmationsRef.current.get(call.id)?.(approved)}
+                      />
+                  ))}
                   {rawText && renderMessageContent(rawText, index)}
+                  {msg.citations && msg.citations.length > 0 && <CitationList citations={msg.citations} />}
+                  {msg.safety && <SafetyNotice feedback={msg.safety} adjustHint="Advanced settings below the message box, or in the persona's safety settings," />}
                 </div>
+                )}
+
+                {msg.role === 'user' && !isEditing && (
+                  <div className="flex items-center gap-1 self-end">
+                    {renderBranchNav(msg)}
+                    <button onClick={() => setEditing({ id: msg.id!, text: rawText })} disabled={loading} className="p-1.5 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-300 disabled:hidden" title="Edit">
+                      <PencilSquareIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
 
-                {msg.role === 'model' && rawText && (
+                {msg.role === 'model' && rawText && !isStreaming && (
+                  <div className="flex items-center gap-1">
+                   {renderBranchNav(msg)}
+                   {msg.usage && renderUsage(msg.usage)}
                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                    <button onClick={() => handleRegenerate(msg)} disabled={loading} className="p-1.5 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full disabled:hidden" title="Regenerate">
+                      <ArrowPathIcon className="w-4 h-4" />
+                    </button>
                     <button onClick={() => handleListen(rawText, index)} className="p-1.5 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full" title="Listen">
                       {audioState.index === index && audioState.status === 'loading' && <Spinner size="sm" />}
                       {audioState.index !== index && <SpeakerWaveIcon className="w-4 h-4" />}
@@ -399,6 +1129,7 @@ const Chatbot: React.FC = () => {
                     <button onClick={() => handleDownload(rawText, index)} className="p-1.5 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full" title="Download as .txt">
                       <ArrowDownTrayIcon className="w-4 h-4" />
                     </button>
+                   </div>
                   </div>
                 )}
               </div>
@@ -406,7 +1137,7 @@ const Chatbot: React.FC = () => {
             </div>
           )
         })}
-        {loading && (
+        {loading && !history[history.length - 1]?.parts[0].text && !history[history.length - 1]?.toolCalls?.length && (
           <div className="flex items-start gap-4">
             <Logo className="flex-shrink-0 w-8 h-8" showText={false} />
             <div className="px-4 py-3 rounded-2xl bg-gray-200 dark:bg-gray-800 text-gray-800 dark:text-gray-100 rounded-bl-none">
@@ -421,55 +1152,127 @@ const Chatbot: React.FC = () => {
         <div ref={messagesEndRef} />
       </div>
       <div className="p-4 flex-shrink-0 border-t border-gray-200/50 dark:border-gray-700/50">
-        {imagePreview && (
-          <div className="relative inline-block w-24 h-24 mb-2 border border-gray-300 dark:border-gray-700 rounded-lg p-1">
-            <img src={imagePreview} alt="Image preview" className="w-full h-full object-cover rounded-md" />
-            <button
-              onClick={removeImage}
-              className="absolute -top-2 -right-2 bg-gray-100 dark:bg-black rounded-full text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white transition-colors focus:outline-none"
-              aria-label="Remove image"
-            >
-              <XCircleIcon className="w-6 h-6" />
-            </button>
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap gap-3 mb-2">
+            {attachments.map(attachment => (
+              <div key={attachment.id} className="relative border border-gray-300 dark:border-gray-700 rounded-lg p-1">
+                {attachment.kind === 'image' ? (
+                  <img src={attachment.dataUrl} alt={attachment.name} className="w-20 h-20 object-cover rounded-md" />
+                ) : (
+                  <div className="w-40 h-20 flex flex-col justify-center gap-1 px-2 text-xs text-gray-700 dark:text-gray-300">
+                    <DocumentTextIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+                    <span className="truncate font-medium" title={attachment.name}>{attachment.name}</span>
+                    <span className="text-gray-500 dark:text-gray-400">{formatBytes(attachment.size)}</span>
+                  </div>
+                )}
+                <button
+                  onClick={() => removeAttachment(attachment.id)}
+                  className="absolute -top-2 -right-2 bg-gray-100 dark:bg-black rounded-full text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white transition-colors focus:outline-none"
+                  aria-label={`Remove ${attachment.name}`}
+                >
+                  <XCircleIcon className="w-6 h-6" />
+                </button>
+              </div>
+            ))}
           </div>
         )}
-        <form onSubmit={handleSubmit} className="w-full">
+        {composerErrors.map((error, i) => (
+          <p key={i} className="mb-1 text-xs text-red-500">{error}</p>
+        ))}
+        <form onSubmit={handleSubmit} className="relative w-full">
+            {paletteItems && (
+              <SlashCommandPalette
+                items={paletteItems}
+                activeIndex={paletteIndex}
+                onSelect={handlePaletteSelect}
+                onHover={setPaletteIndex}
+                onManageTemplates={() => {
+                  setIsPaletteDismissed(true);
+                  setIsTemplateLibraryOpen(true);
+                }}
+              />
+            )}
             <div className="flex items-center bg-gray-100 dark:bg-gray-800 rounded-full p-2 gap-1">
-                <div className="relative" ref={styleMenuRef}>
-                    {isStyleMenuOpen && (
-                    <div className="absolute bottom-full mb-2 w-72 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-20 p-2 animate-fade-in-down">
-                        <p className="text-sm font-semibold text-gray-900 dark:text-white px-2 pb-2">Select a Style</p>
-                        {Object.values(chatStyles).map((style) => (
+                <div className="relative" ref={personaMenuRef}>
+                    {isPersonaMenuOpen && (
+                    <div className="absolute bottom-full mb-2 w-72 max-h-96 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-20 p-2 animate-fade-in-down">
+                        <p className="text-sm font-semibold text-gray-900 dark:text-white px-2 pb-2">Select a Persona</p>
+                        {personas.map((persona) => (
                         <button
-                            key={style.name}
+                            type="button"
+                            key={persona.id}
                             onClick={() => {
-                            setSelectedStyle(style.name);
-                            setIsStyleMenuOpen(false);
+                            handlePersonaChange(persona);
+                            setIsPersonaMenuOpen(false);
                             }}
-                            className={`w-full text-left p-2 rounded-md transition-colors ${selectedStyle === style.name ? 'bg-indigo-600/50 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                            className={`w-full text-left p-2 rounded-md transition-colors ${activePersona.id === persona.id ? 'bg-indigo-600/50 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
                         >
-                            <p className="font-medium text-gray-900 dark:text-white">{style.name}</p>
-                            <p className="text-xs text-gray-500 dark:text-gray-300">{style.description}</p>
+                            <p className="font-medium text-gray-900 dark:text-white">{persona.name}</p>
+                            {persona.description && <p className="text-xs text-gray-500 dark:text-gray-300">{persona.description}</p>}
                         </button>
                         ))}
+                        <button
+                            type="button"
+                            onClick={() => {
+                            setIsPersonaEditorOpen(true);
+                            setIsPersonaMenuOpen(false);
+                            }}
+                            className="w-full flex items-center gap-2 mt-1 p-2 text-sm font-medium text-indigo-600 dark:text-indigo-400 rounded-md border-t border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700"
+                        >
+                            <PencilSquareIcon className="w-4 h-4" />
+                            Manage personas
+                        </button>
                     </div>
                     )}
                     <button
                     type="button"
-                    onClick={() => setIsStyleMenuOpen(prev => !prev)}
+                    onClick={() => setIsPersonaMenuOpen(prev => !prev)}
                     disabled={loading}
                     className="p-2 text-gray-500 dark:text-gray-300 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 hover:text-gray-800 dark:hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    aria-label="Select style"
+                    aria-label="Select persona"
                     >
                     <SparklesIcon />
                     </button>
                 </div>
+                {knowledgeCollections.length > 0 && (
+                  <div className="relative" ref={knowledgeMenuRef}>
+                    {isKnowledgeMenuOpen && (
+                      <div className="absolute bottom-full mb-2 w-60 max-h-80 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-20 p-2 animate-fade-in-down">
+                        <p className="text-sm font-semibold text-gray-900 dark:text-white px-2 pb-2">Answer from documents</p>
+                        {[null, ...knowledgeCollections].map(name => (
+                          <button
+                            type="button"
+                            key={name ?? 'off'}
+                            onClick={() => {
+                              setKnowledgeCollection(name);
+                              setIsKnowledgeMenuOpen(false);
+                            }}
+                            className={`w-full text-left p-2 rounded-md text-sm transition-colors ${knowledgeCollection === name ? 'bg-indigo-600/50 text-white' : 'text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                          >
+                            {name ?? 'Off'}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setIsKnowledgeMenuOpen(prev => !prev)}
+                      disabled={loading}
+                      className={`p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${knowledgeCollection ? 'text-indigo-500' : 'text-gray-500 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white'}`}
+                      aria-label="Select knowledge base collection"
+                      title={knowledgeCollection ? `Answering from "${knowledgeCollection}"` : 'Answer from your documents'}
+                    >
+                      <BookOpenIcon />
+                    </button>
+                  </div>
+                )}
                 <input
                     type="file"
                     ref={fileInputRef}
                     onChange={handleFileChange}
                     className="hidden"
-                    accept="image/*"
+                    accept={ATTACHMENT_ACCEPT}
+                    multiple
                     disabled={loading}
                 />
                 <button
@@ -482,23 +1285,58 @@ const Chatbot: React.FC = () => {
                     <PaperClipIcon />
                 </button>
                 <input
+                    ref={promptInputRef}
                     type="text"
                     value={prompt}
-                    onChange={(e) => setPrompt(e.target.value)}
+                    onChange={(e) => {
+                      setPrompt(e.target.value);
+                      setPaletteIndex(0);
+                      setIsPaletteDismissed(false);
+                    }}
+                    onKeyDown={handlePromptKeyDown}
+                    onPaste={handlePaste}
                     placeholder="Ask me anything..."
                     className="flex-1 bg-transparent px-2 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none"
                     disabled={loading}
                 />
-                <button 
-                    type="submit" 
-                    disabled={loading || (!prompt.trim() && !image)} 
-                    className="flex-shrink-0 p-2 bg-gradient-to-br from-indigo-500 to-purple-600 text-white rounded-full shadow-lg ring-1 ring-white/20 transition-all duration-300 ease-in-out transform hover:scale-110 active:scale-95 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 dark:focus:ring-offset-gray-800 focus:ring-indigo-500 disabled:from-gray-500 dark:disabled:from-gray-600 disabled:to-gray-600 dark:disabled:to-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed disabled:shadow-none disabled:scale-100"
-                    aria-label="Send message"
-                >
-                    <PaperAirplaneIcon />
-                </button>
+                {loading ? (
+                    <button
+                        type="button"
+                        onClick={handleStop}
+                        className="flex-shrink-0 p-2 bg-gradient-to-br from-red-500 to-orange-600 text-white rounded-full shadow-lg ring-1 ring-white/20 transition-all duration-300 ease-in-out transform hover:scale-110 active:scale-95 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 dark:focus:ring-offset-gray-800 focus:ring-red-500"
+                        aria-label="Stop generating"
+                    >
+                        <StopCircleIcon />
+                    </button>
+                ) : (
+                    <button 
+                        type="submit" 
+                        disabled={!prompt.trim() && attachments.length === 0} 
+                        className="flex-shrink-0 p-2 bg-gradient-to-br from-indigo-500 to-purple-600 text-white rounded-full shadow-lg ring-1 ring-white/20 transition-all duration-300 ease-in-out transform hover:scale-110 active:scale-95 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 dark:focus:ring-offset-gray-800 focus:ring-indigo-500 disabled:from-gray-500 dark:disabled:from-gray-600 disabled:to-gray-600 dark:disabled:to-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed disabled:shadow-none disabled:scale-100"
+                        aria-label="Send message"
+                    >
+                        <PaperAirplaneIcon />
+                    </button>
+                )}
             </div>
         </form>
+        <div className="mt-1 px-4 flex items-start justify-between gap-4">
+          <GenerationSettings
+            feature="chat"
+            model={resolveModel('chat', activePersona.model)}
+            value={generationParams}
+            onChange={handleGenerationParamsChange}
+            disabled={loading}
+            showCandidates={false}
+            note="Empty fields use the model defaults. A persona's own temperature, top-P and safety settings take precedence."
+          />
+          {requestTokens !== null && (
+            <p className="text-right text-xs text-gray-500 dark:text-gray-400">
+              ≈ {formatTokens(requestTokens)} tokens to send{requestCost !== undefined && ` · ${formatCost(requestCost)} before the reply`}
+            </p>
+          )}
+        </div>
+      </div>
       </div>
     </div>
   );
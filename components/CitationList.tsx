@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { Citation } from '../types';
+import { BookOpenIcon, ChevronRightIcon } from '../constants';
+
+interface CitationListProps {
+  citations: Citation[];
+}
+
+// The knowledge base passages a reply was given, numbered as the reply cites them.
+const CitationList: React.FC<CitationListProps> = ({ citations }) => {
+  const [open, setOpen] = useState<number | null>(null);
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-300/70 dark:border-gray-700 text-sm">
+      <p className="flex items-center gap-1.5 mb-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">
+        <BookOpenIcon className="w-4 h-4" />
+        Sources
+      </p>
+      <ol className="space-y-1">
+        {citations.map((citation, i) => (
+          <li key={citation.chunkId}>
+            <button
+              onClick={() => setOpen(prev => (prev === i ? null : i))}
+              className="w-full flex items-center gap-2 text-left text-xs hover:underline"
+              aria-expanded={open === i}
+            >
+              <span className="flex-shrink-0 font-mono font-semibold">[{i + 1}]</span>
+              <span className="truncate">{citation.documentName}</span>
+              <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">passage {citation.chunkIndex + 1}</span>
+              <ChevronRightIcon className={`w-3 h-3 flex-shrink-0 ml-auto transition-transform ${open === i ? 'rotate-90' : ''}`} />
+            </button>
+            {open === i && (
+              <p className="mt-1 p-2 rounded-md bg-white/60 dark:bg-gray-900/60 text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap max-h-60 overflow-y-auto">
+                {citation.text}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default CitationList;
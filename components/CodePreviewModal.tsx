@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+    CodeFile, ConsoleEntry, SANDBOX_ATTRIBUTES, SANDBOX_MESSAGE_SOURCE, buildPreviewDocument, formatErrorReport,
+} from '../services/codeSandbox';
+import { ArrowPathIcon, CheckIcon, ClipboardIcon, ShareIcon, XCircleIcon, PaperAirplaneIcon } from '../constants';
+
+interface CodePreviewModalProps {
+    files: CodeFile[];
+    onClose: () => void;
+    // Omitted when there is no chat to send to (or a reply is streaming)
+    onSendError?: (report: string) => void;
+}
+
+const LEVEL_CLASSES: Record<ConsoleEntry['level'], string> = {
+    log: 'text-gray-200',
+    info: 'text-blue-300',
+    warn: 'text-yellow-300 bg-yellow-500/10',
+    error: 'text-red-300 bg-red-500/10',
+    debug: 'text-gray-400',
+};
+
+const CodePreviewModal: React.FC<CodePreviewModalProps> = ({ files, onClose, onSendError }) => {
+    const [copySuccess, setCopySuccess] = useState(false);
+    const [view, setView] = useState<'preview' | 'source'>('preview');
+    const [entries, setEntries] = useState<ConsoleEntry[]>([]);
+    const [runId, setRunId] = useState(0);
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    const consoleEndRef = useRef<HTMLDivElement>(null);
+
+    const pageHtml = useMemo(() => buildPreviewDocument(files), [files]);
+    const errorCount = entries.filter(entry => entry.level === 'error').length;
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            // The sandboxed frame has an opaque origin, so it is identified by its window instead
+            if (event.source !== iframeRef.current?.contentWindow || event.data?.source !== SANDBOX_MESSAGE_SOURCE) return;
+            const { level, message } = event.data;
+            setEntries(prev => [...prev, { level, message: String(message) }]);
+        };
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    useEffect(() => {
+        consoleEndRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [entries]);
+
+    const handleRerun = () => {
+        setEntries([]);
+        setRunId(prev => prev + 1);
+    };
+
+    const handleCopyToClipboard = () => {
+        navigator.clipboard.writeText(pageHtml);
+        setCopySuccess(true);
+        setTimeout(() => setCopySuccess(false), 2000);
+    };
+
+    const handleShare = async () => {
+        if (navigator.share) {
+            try {
+                await navigator.share({
+                    title: 'Code Snippet from NexaNeuron',
+                    text: pageHtml,
+                });
+            } catch (error) {
+                console.error('Error sharing:', error);
+            }
+        } else {
+            handleCopyToClipboard();
+            alert('Web Share API not supported. Code copied to clipboard instead.');
+        }
+    };
+
+    const toolbarButton = "flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-900 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors";
+    const tabButton = (active: boolean) => `px-3 py-1 text-xs font-medium rounded-md ${active ? 'bg-indigo-600 text-white' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`;
+
+    return (
+        <div className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col animate-fade-in-down" onClick={e => e.stopPropagation()}>
+                <div className="flex flex-wrap items-center justify-between gap-2 p-3 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+                    <div className="flex items-center gap-3">
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Code Preview</h3>
+                        <div className="flex gap-1">
+                            <button onClick={() => setView('preview')} className={tabButton(view === 'preview')}>Preview</button>
+                            <button onClick={() => setView('source')} className={tabButton(view === 'source')}>Source</button>
+                        </div>
+                        <span className="hidden sm:inline text-xs text-gray-500 dark:text-gray-400">
+                            {files.map(file => file.language.toUpperCase()).join(' + ')}
+                        </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button onClick={handleRerun} className={toolbarButton} title="Run again">
+                            <ArrowPathIcon className="w-4 h-4" />
+                            Run
+                        </button>
+                        <button onClick={handleCopyToClipboard} className={toolbarButton}>
+                            {copySuccess ? <CheckIcon className="w-4 h-4 text-green-500" /> : <ClipboardIcon className="w-4 h-4" />}
+                            {copySuccess ? 'Copied!' : 'Copy Code'}
+                        </button>
+                        <button onClick={handleShare} className={toolbarButton}>
+                            <ShareIcon className="w-4 h-4" />
+                            Share Code
+                        </button>
+                        <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400">
+                            <XCircleIcon className="w-6 h-6" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 min-h-0 relative">
+                    <iframe
+                        key={runId}
+                        ref={iframeRef}
+                        srcDoc={pageHtml}
+                        title="Code Preview"
+                        className={`w-full h-full border-0 bg-white ${view === 'preview' ? '' : 'invisible'}`}
+                        sandbox={SANDBOX_ATTRIBUTES}
+                        referrerPolicy="no-referrer"
+                    />
+                    {view === 'source' && (
+                        <pre className="absolute inset-0 overflow-auto p-4 text-xs bg-gray-900 text-gray-100 whitespace-pre-wrap">{pageHtml}</pre>
+                    )}
+                </div>
+
+                <div className="h-40 flex flex-col flex-shrink-0 border-t border-gray-200 dark:border-gray-700 bg-black rounded-b-xl">
+                    <div className="flex items-center justify-between px-3 py-1.5 text-xs text-gray-400 border-b border-white/10">
+                        <span>Console {errorCount > 0 && <span className="text-red-400">· {errorCount} error{errorCount === 1 ? '' : 's'}</span>}</span>
+                        <div className="flex items-center gap-2">
+                            {onSendError && errorCount > 0 && (
+                                <button onClick={() => onSendError(formatErrorReport(entries))} className="flex items-center gap-1 px-2 py-0.5 text-white bg-indigo-600 rounded hover:bg-indigo-500">
+                                    <PaperAirplaneIcon className="w-3.5 h-3.5" />
+                                    Send error to chat
+                                </button>
+                            )}
+                            <button onClick={() => setEntries([])} className="px-2 py-0.5 rounded hover:bg-white/10 hover:text-white">Clear</button>
+                        </div>
+                    </div>
+                    <div className="flex-1 overflow-y-auto font-mono text-xs">
+                        {entries.length === 0 && <p className="px-3 py-2 text-gray-500">No output yet.</p>}
+                        {entries.map((entry, i) => (
+                            <pre key={i} className={`px-3 py-1 border-b border-white/5 whitespace-pre-wrap break-words ${LEVEL_CLASSES[entry.level]}`}>{entry.message}</pre>
+                        ))}
+                        <div ref={consoleEndRef} />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CodePreviewModal;
@@ -1,31 +1,45 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { geminiService } from '../services/geminiService';
+import { loadGenerationParams } from '../services/generationParams';
+import { resolveModel } from '../services/modelRegistry';
+import { findJob, jobManager } from '../services/jobManager';
+import { BackgroundJob } from '../types';
 import { BrainCircuitIcon } from '../constants';
 import Spinner from './Spinner';
+import GenerationSettings from './GenerationSettings';
+import SafetyNotice from './SafetyNotice';
+import CancelButton from './CancelButton';
 
 const ComplexTaskSolver: React.FC = () => {
   const [prompt, setPrompt] = useState('');
-  const [result, setResult] = useState('');
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
+  const [params, setParams] = useState(() => loadGenerationParams('complexTask'));
+  const [jobs, setJobs] = useState<BackgroundJob[]>(() => jobManager.getJobs());
+  const [jobId, setJobId] = useState<string>();
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // Thinking can take minutes, so the task runs as a background job
+  useEffect(() => jobManager.subscribe(setJobs), []);
+
+  const job = findJob(jobs, 'complexTask', jobId);
+  const loading = job?.status === 'running';
+  const result = job?.result?.text ?? '';
+  const blocked = job?.safety ?? null;
+  const error = blocked ? '' : job?.error ?? '';
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!prompt.trim() || loading) return;
 
-    setLoading(true);
-    setResult('');
-    setError('');
+    const started = jobManager.start(
+      'complexTask',
+      prompt,
+      async ({ signal }) => ({ text: await geminiService.solveComplexTask(prompt, params, signal) }),
+      { fallbackError: 'An error occurred while solving the task. Please try again.' },
+    );
+    setJobId(started.id);
+  };
 
-    try {
-      const response = await geminiService.solveComplexTask(prompt);
-      setResult(response);
-    } catch (err) {
-      console.error(err);
-      setError('An error occurred while solving the task. Please try again.');
-    } finally {
-      setLoading(false);
-    }
+  const handleCancel = () => {
+    if (job) jobManager.cancel(job.id);
   };
 
   return (
@@ -43,6 +57,7 @@ const ComplexTaskSolver: React.FC = () => {
           className="w-full h-40 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-4 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
           disabled={loading}
         />
+        <GenerationSettings feature="complexTask" model={resolveModel('complexTask')} value={params} onChange={setParams} disabled={loading} />
         <button
           type="submit"
           disabled={loading || !prompt.trim()}
@@ -51,9 +66,11 @@ const ComplexTaskSolver: React.FC = () => {
           {loading ? <Spinner /> : <BrainCircuitIcon />}
           {loading ? 'Thinking...' : 'Solve with AI'}
         </button>
+        {loading && <CancelButton onClick={handleCancel} />}
       </form>
 
       {error && <p className="text-red-500 dark:text-red-400 text-center">{error}</p>}
+      {blocked && <SafetyNotice feedback={blocked} />}
       
       {result && (
         <div className="flex-1 bg-gray-50/80 dark:bg-black/50 rounded-lg p-4 overflow-y-auto border border-gray-200 dark:border-gray-700">
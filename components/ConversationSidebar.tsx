@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Conversation } from '../types';
+import { SearchIcon, PencilSquareIcon, TrashIcon, BookmarkIcon, CheckIcon, XCircleIcon } from '../constants';
+
+interface ConversationSidebarProps {
+  isOpen: boolean;
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (conversation: Conversation) => void;
+  onRename: (id: string, title: string) => void;
+  onTogglePin: (conversation: Conversation) => void;
+  onDelete: (conversation: Conversation) => void;
+}
+
+const matchesQuery = (conversation: Conversation, query: string) => {
+  const needle = query.toLowerCase();
+  return conversation.title.toLowerCase().includes(needle) ||
+    conversation.messages.some(msg => msg.parts[0]?.text.toLowerCase().includes(needle));
+};
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  isOpen, conversations, activeId, onSelect, onRename, onTogglePin, onDelete,
+}) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const visible = query.trim() ? conversations.filter(c => matchesQuery(c, query.trim())) : conversations;
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className={`${isOpen ? 'flex' : 'hidden'} md:flex flex-col w-64 flex-shrink-0 border-r border-gray-200/50 dark:border-gray-700/50`}>
+      <div className="p-3 border-b border-gray-200/50 dark:border-gray-700/50">
+        <div className="flex items-center gap-2 px-2 py-1.5 bg-gray-100 dark:bg-gray-800 rounded-lg">
+          <SearchIcon className="w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search chats"
+            className="flex-1 bg-transparent text-sm text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none"
+          />
+        </div>
+      </div>
+      <nav className="flex-1 p-2 space-y-1 overflow-y-auto">
+        {visible.length === 0 && (
+          <p className="px-2 py-4 text-sm text-center text-gray-500 dark:text-gray-400">
+            {query.trim() ? 'No chats match your search.' : 'No saved chats yet.'}
+          </p>
+        )}
+        {visible.map(conversation => (
+          <div
+            key={conversation.id}
+            className={`group flex items-center gap-1 rounded-lg transition-colors ${
+              conversation.id === activeId
+                ? 'bg-indigo-600/10 dark:bg-indigo-400/10 text-indigo-700 dark:text-indigo-300'
+                : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+            }`}
+          >
+            {editingId === conversation.id ? (
+              <form
+                onSubmit={(e) => { e.preventDefault(); commitRename(); }}
+                className="flex-1 flex items-center gap-1 p-1"
+              >
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                />
+                <button type="submit" className="p-1 hover:text-green-500" title="Save">
+                  <CheckIcon className="w-4 h-4" />
+                </button>
+                <button type="button" onClick={() => setEditingId(null)} className="p-1 hover:text-red-500" title="Cancel">
+                  <XCircleIcon className="w-4 h-4" />
+                </button>
+              </form>
+            ) : (
+              <>
+                <button
+                  onClick={() => onSelect(conversation)}
+                  className="flex-1 min-w-0 flex items-center gap-2 px-2 py-2 text-left"
+                  title={new Date(conversation.updatedAt).toLocaleString()}
+                >
+                  {conversation.pinned && <BookmarkIcon className="w-3.5 h-3.5 flex-shrink-0 text-indigo-500" />}
+                  <span className="truncate text-sm">{conversation.title}</span>
+                </button>
+                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity pr-1">
+                  <button onClick={() => onTogglePin(conversation)} className="p-1 text-gray-500 hover:text-indigo-500" title={conversation.pinned ? 'Unpin' : 'Pin'}>
+                    <BookmarkIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => startRename(conversation)} className="p-1 text-gray-500 hover:text-indigo-500" title="Rename">
+                    <PencilSquareIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onDelete(conversation)} className="p-1 text-gray-500 hover:text-red-500" title="Delete">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </nav>
+    </aside>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportFormat } from '../services/conversationExport';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from '../constants';
+
+interface ExportMenuProps {
+  // Nothing to export until the chat has been saved
+  canExport: boolean;
+  onExport: (format: ExportFormat) => void;
+  onImport: (file: File) => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: 'markdown', label: 'Markdown', hint: '.md with code fences' },
+  { format: 'html', label: 'HTML', hint: 'Formatted page with images' },
+  { format: 'pdf', label: 'PDF', hint: 'Print or save as PDF' },
+  { format: 'json', label: 'JSON', hint: 'Every branch, can be imported' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ canExport, onExport, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="p-2 text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+        aria-label="Export or import chat"
+        title="Export or import chat"
+      >
+        <ArrowDownTrayIcon className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-60 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-20 p-2 animate-fade-in-down">
+          <p className="text-sm font-semibold text-gray-900 dark:text-white px-2 pb-2">Export this chat</p>
+          {FORMATS.map(({ format, label, hint }) => (
+            <button
+              key={format}
+              onClick={() => { onExport(format); setIsOpen(false); }}
+              disabled={!canExport}
+              className="w-full text-left p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:hover:bg-transparent"
+            >
+              <p className="text-sm font-medium text-gray-900 dark:text-white">{label}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{hint}</p>
+            </button>
+          ))}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center gap-2 mt-1 p-2 text-sm font-medium text-indigo-600 dark:text-indigo-400 rounded-md border-t border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <ArrowUpTrayIcon className="w-4 h-4" />
+            Import chat from JSON
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json,application/json" className="hidden" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { HarmBlockThreshold, HarmCategory } from '@google/genai';
+import { GenerationParams } from '../types';
+import { GenerationFeature, GenerationField, MAX_CANDIDATES, MAX_STOP_SEQUENCES, TOP_K_LIMIT, saveGenerationParams, validateGenerationField } from '../services/generationParams';
+import { findModel } from '../services/modelRegistry';
+import { SAFETY_CATEGORIES, SAFETY_THRESHOLDS } from '../services/safety';
+import { ChevronRightIcon } from '../constants';
+
+interface GenerationSettingsProps {
+  feature: GenerationFeature;
+  // The model the settings will be sent to, which sets the output token limit
+  model: string;
+  value: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+  disabled?: boolean;
+  // Chat replies are a single message, so they have no candidate count
+  showCandidates?: boolean;
+  note?: string;
+}
+
+// Safety settings are picked from lists rather than typed
+type DraftField = Exclude<GenerationField, 'safetySettings'>;
+type NumberField = Exclude<DraftField, 'stopSequences'>;
+
+const inputClass = "w-full bg-gray-100 dark:bg-gray-800 border rounded-lg py-1.5 px-2 text-sm text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50";
+
+const toDrafts = (params: GenerationParams): Record<DraftField, string> => ({
+  temperature: params.temperature?.toString() ?? '',
+  topP: params.topP?.toString() ?? '',
+  topK: params.topK?.toString() ?? '',
+  maxOutputTokens: params.maxOutputTokens?.toString() ?? '',
+  stopSequences: params.stopSequences?.join('\n') ?? '',
+  seed: params.seed?.toString() ?? '',
+  candidateCount: params.candidateCount?.toString() ?? '',
+});
+
+// An empty field means the model's default; anything else that isn't a number
+// comes back as NaN so it fails validation.
+const parseDraft = (field: DraftField, draft: string) => {
+  if (!draft.trim()) return undefined;
+  if (field === 'stopSequences') return draft.split('\n').filter(line => line !== '');
+  return Number(draft);
+};
+
+const GenerationSettings: React.FC<GenerationSettingsProps> = ({ feature, model, value, onChange, disabled, showCandidates = true, note }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [drafts, setDrafts] = useState(() => toDrafts(value));
+
+  const outputLimit = findModel(model)?.outputTokenLimit;
+  const numberFields: { field: NumberField; label: string; step: string; placeholder: string }[] = [
+    { field: 'temperature', label: 'Temperature', step: '0.1', placeholder: '0 – 2' },
+    { field: 'topP', label: 'Top-P', step: '0.05', placeholder: '0 – 1' },
+    { field: 'topK', label: 'Top-K', step: '1', placeholder: `1 – ${TOP_K_LIMIT}` },
+    { field: 'maxOutputTokens', label: 'Max output tokens', step: '1', placeholder: outputLimit ? `1 – ${outputLimit}` : 'Model default' },
+    { field: 'seed', label: 'Seed', step: '1', placeholder: 'Random' },
+    ...(showCandidates ? [{ field: 'candidateCount' as const, label: 'Candidates', step: '1', placeholder: `1 – ${MAX_CANDIDATES}` }] : []),
+  ];
+
+  const errorFor = (field: DraftField) => {
+    const parsed = parseDraft(field, drafts[field]);
+    if (typeof parsed === 'number' && Number.isNaN(parsed)) return 'Enter a number.';
+    return validateGenerationField(field, parsed, model);
+  };
+
+  const commit = (params: GenerationParams) => {
+    saveGenerationParams(feature, params);
+    onChange(params);
+  };
+
+  // Only valid values are saved; an invalid one stays in its field with the reason.
+  const handleChange = (field: DraftField, draft: string) => {
+    setDrafts(prev => ({ ...prev, [field]: draft }));
+    const parsed = parseDraft(field, draft);
+    if (typeof parsed === 'number' && Number.isNaN(parsed)) return;
+    if (validateGenerationField(field, parsed, model)) return;
+    const next = { ...value };
+    if (parsed === undefined) delete next[field];
+    else (next as Record<GenerationField, unknown>)[field] = parsed;
+    commit(next);
+  };
+
+  const handleSafetyChange = (category: HarmCategory, threshold: string) => {
+    const others = (value.safetySettings ?? []).filter(setting => setting.category !== category);
+    const safetySettings = threshold ? [...others, { category, threshold: threshold as HarmBlockThreshold }] : others;
+    const next = { ...value, safetySettings };
+    if (safetySettings.length === 0) delete next.safetySettings;
+    commit(next);
+  };
+
+  const handleReset = () => {
+    setDrafts(toDrafts({}));
+    commit({});
+  };
+
+  const setCount = Object.values(value).filter(v => v !== undefined).length;
+  const stopError = errorFor('stopSequences');
+
+  return (
+    <div className="text-sm">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-1 text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-white"
+        aria-expanded={isOpen}
+      >
+        <ChevronRightIcon className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+        Advanced settings{setCount > 0 && ` (${setCount} set)`}
+      </button>
+      {isOpen && (
+        <div className="mt-2 p-3 space-y-3 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {numberFields.map(({ field, label, step, placeholder }) => {
+              const error = errorFor(field);
+              return (
+                <label key={field} className="block space-y-1">
+                  <span className="text-xs font-medium text-gray-700 dark:text-gray-300">{label}</span>
+                  <input
+                    type="number"
+                    step={step}
+                    value={drafts[field]}
+                    onChange={e => handleChange(field, e.target.value)}
+                    placeholder={placeholder}
+                    disabled={disabled}
+                    className={`${inputClass} ${error ? 'border-red-500' : 'border-gray-300 dark:border-gray-700'}`}
+                  />
+                  {error && <span className="block text-xs text-red-500">{error}</span>}
+                </label>
+              );
+            })}
+          </div>
+          <label className="block space-y-1">
+            <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Stop sequences (one per line, up to {MAX_STOP_SEQUENCES})</span>
+            <textarea
+              value={drafts.stopSequences}
+              onChange={e => handleChange('stopSequences', e.target.value)}
+              rows={2}
+              disabled={disabled}
+              className={`${inputClass} resize-none ${stopError ? 'border-red-500' : 'border-gray-300 dark:border-gray-700'}`}
+            />
+            {stopError && <span className="block text-xs text-red-500">{stopError}</span>}
+          </label>
+          <div className="space-y-1">
+            <span className="text-xs font-medium text-gray-700 dark:text-gray-300">Safety filters</span>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {SAFETY_CATEGORIES.map(({ category, label }) => (
+                <label key={category} className="flex items-center justify-between gap-2 text-xs text-gray-700 dark:text-gray-300">
+                  {label}
+                  <select
+                    value={value.safetySettings?.find(setting => setting.category === category)?.threshold ?? ''}
+                    onChange={e => handleSafetyChange(category, e.target.value)}
+                    disabled={disabled}
+                    className="p-1 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md text-xs disabled:opacity-50"
+                  >
+                    <option value="">Default</option>
+                    {SAFETY_THRESHOLDS.map(({ threshold, label }) => <option key={threshold} value={threshold}>{label}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{note ?? 'Empty fields use the model defaults.'}</p>
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={disabled || setCount === 0}
+              className="flex-shrink-0 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationSettings;
@@ -1,8 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { geminiService } from '../services/geminiService';
-import { SearchIcon, MapPinIcon } from '../constants';
-import Spinner from './Spinner';
+import { describeError } from '../services/errors';
+import { SearchIcon, MapPinIcon, StopCircleIcon } from '../constants';
 import { GroundingSource } from '../types';
+import CachedNotice from './CachedNotice';
 
 
 const GroundingSearch: React.FC = () => {
@@ -12,6 +13,10 @@ const GroundingSearch: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   useEffect(() => {
     if (useMaps && !location) {
@@ -30,25 +35,42 @@ const GroundingSearch: React.FC = () => {
     }
   }, [useMaps, location]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const search = async (refresh: boolean) => {
     if (!query.trim() || loading) return;
 
     setLoading(true);
     setResult(null);
     setError('');
+    setCachedAt(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      const response = await geminiService.groundedSearch(query, useMaps, location);
+      const response = await geminiService.groundedSearch(query, useMaps, location, controller.signal, { refresh, onCacheHit: setCachedAt });
       setResult(response);
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error(err);
-      setError('An error occurred during the search. Please try again.');
+      setError(describeError(err, 'An error occurred during the search. Please try again.'));
     } finally {
-      setLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    search(false);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setLoading(false);
+  };
+
   return (
     <div className="flex flex-col h-full bg-white/60 dark:bg-gray-900/60 backdrop-blur-lg rounded-lg border border-gray-200/50 dark:border-gray-700/50 p-6 space-y-6">
       <div className="text-center">
@@ -66,13 +88,24 @@ const GroundingSearch: React.FC = () => {
             className="flex-1 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-full py-3 px-5 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
             disabled={loading}
           />
-          <button
-            type="submit"
-            disabled={loading || !query.trim()}
-            className="p-3 bg-gradient-to-br from-indigo-500 to-purple-600 text-white rounded-full shadow-lg ring-1 ring-white/20 transition-all duration-300 ease-in-out transform hover:scale-110 active:scale-95 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-900 focus:ring-indigo-500 disabled:from-gray-500 dark:disabled:from-gray-600 disabled:to-gray-600 dark:disabled:to-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed disabled:shadow-none disabled:scale-100"
-          >
-            {loading ? <Spinner size="sm" /> : <SearchIcon />}
-          </button>
+          {loading ? (
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="p-3 bg-gradient-to-br from-red-500 to-orange-600 text-white rounded-full shadow-lg ring-1 ring-white/20 transition-all duration-300 ease-in-out transform hover:scale-110 active:scale-95 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-900 focus:ring-red-500"
+              aria-label="Cancel search"
+            >
+              <StopCircleIcon />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!query.trim()}
+              className="p-3 bg-gradient-to-br from-indigo-500 to-purple-600 text-white rounded-full shadow-lg ring-1 ring-white/20 transition-all duration-300 ease-in-out transform hover:scale-110 active:scale-95 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-gray-900 focus:ring-indigo-500 disabled:from-gray-500 dark:disabled:from-gray-600 disabled:to-gray-600 dark:disabled:to-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed disabled:shadow-none disabled:scale-100"
+            >
+              <SearchIcon />
+            </button>
+          )}
         </div>
         <div className="flex items-center justify-center">
           <label className="flex items-center gap-2 cursor-pointer text-gray-600 dark:text-gray-300">
@@ -92,6 +125,7 @@ const GroundingSearch: React.FC = () => {
       
       {result && (
         <div className="flex-1 bg-gray-50/80 dark:bg-black/50 rounded-lg p-4 overflow-y-auto border border-gray-200 dark:border-gray-700 space-y-4">
+          {cachedAt && <CachedNotice cachedAt={cachedAt} onRefresh={() => search(true)} disabled={loading} />}
           <div>
             <h3 className="text-lg font-semibold mb-2 text-indigo-600 dark:text-indigo-400">Answer:</h3>
             <div
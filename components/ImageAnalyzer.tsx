@@ -1,7 +1,16 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { geminiService } from '../services/geminiService';
+import { loadGenerationParams } from '../services/generationParams';
+import { resolveModel } from '../services/modelRegistry';
+import { ResponseBlockedError } from '../services/safety';
+import { describeError } from '../services/errors';
+import { SafetyFeedback } from '../types';
 import { PhotoIcon, SparklesIcon } from '../constants';
 import Spinner from './Spinner';
+import GenerationSettings from './GenerationSettings';
+import SafetyNotice from './SafetyNotice';
+import CancelButton from './CancelButton';
+import CachedNotice from './CachedNotice';
 
 
 const ImageAnalyzer: React.FC = () => {
@@ -11,6 +20,12 @@ const ImageAnalyzer: React.FC = () => {
   const [result, setResult] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [blocked, setBlocked] = useState<SafetyFeedback | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [params, setParams] = useState(() => loadGenerationParams('imageAnalysis'));
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -22,25 +37,47 @@ const ImageAnalyzer: React.FC = () => {
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const analyze = async (refresh: boolean) => {
     if (!image || !prompt.trim() || loading) return;
 
     setLoading(true);
     setResult('');
     setError('');
+    setBlocked(null);
+    setCachedAt(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      const response = await geminiService.analyzeImage(prompt, image);
+      const response = await geminiService.analyzeImage(prompt, image, params, controller.signal, { refresh, onCacheHit: setCachedAt });
       setResult(response);
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error(err);
-      setError('An error occurred while analyzing the image. Please try again.');
+      if (err instanceof ResponseBlockedError) {
+        setBlocked(err.feedback);
+      } else {
+        setError(describeError(err, 'An error occurred while analyzing the image. Please try again.'));
+      }
     } finally {
-      setLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    analyze(false);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setLoading(false);
+  };
+
   return (
     <div className="flex flex-col h-full bg-white/60 dark:bg-gray-900/60 backdrop-blur-lg rounded-lg border border-gray-200/50 dark:border-gray-700/50 p-6 space-y-6">
       <div className="text-center">
@@ -72,6 +109,7 @@ const ImageAnalyzer: React.FC = () => {
               className="w-full h-24 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-4 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
               disabled={loading || !image}
             />
+            <GenerationSettings feature="imageAnalysis" model={resolveModel('vision')} value={params} onChange={setParams} disabled={loading} />
             <button
               type="submit"
               disabled={loading || !image || !prompt.trim()}
@@ -80,19 +118,22 @@ const ImageAnalyzer: React.FC = () => {
               {loading ? <Spinner /> : <SparklesIcon />}
               {loading ? 'Analyzing...' : 'Analyze Image'}
             </button>
+            {loading && <CancelButton onClick={handleCancel} />}
           </form>
         </div>
 
         <div className="h-full min-h-[300px] lg:h-auto bg-gray-50/80 dark:bg-black/50 rounded-lg p-4 overflow-y-auto border border-gray-200/50 dark:border-gray-700/50">
           <h3 className="text-lg font-semibold mb-2 text-indigo-600 dark:text-indigo-400">Analysis:</h3>
           {error && <p className="text-red-500 dark:text-red-400">{error}</p>}
+          {blocked && <SafetyNotice feedback={blocked} />}
+          {result && cachedAt && <div className="mb-2"><CachedNotice cachedAt={cachedAt} onRefresh={() => analyze(true)} disabled={loading} /></div>}
           {result ? (
             <div
               className="prose prose-gray dark:prose-invert max-w-none"
               dangerouslySetInnerHTML={{ __html: geminiService.formatResponse(result) }}
             />
           ) : (
-            !loading && <p className="text-gray-500 dark:text-gray-500">Analysis results will appear here.</p>
+            !loading && !blocked && <p className="text-gray-500 dark:text-gray-500">Analysis results will appear here.</p>
           )}
         </div>
       </div>
@@ -1,69 +1,67 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { geminiService } from '../services/geminiService';
-import { AspectRatio } from '../types';
-import { SparklesIcon, PhotoIcon, ArrowDownTrayIcon, LEGACY_STYLES } from '../constants';
+import { findJob, jobManager } from '../services/jobManager';
+import { AspectRatio, BackgroundJob } from '../types';
+import { SparklesIcon, PhotoIcon, ArrowDownTrayIcon, LEGACY_STYLES, IMAGE_COST } from '../constants';
 import Spinner from './Spinner';
+import CancelButton from './CancelButton';
 import { UserProfile } from '../App';
-import { db } from '../firebase';
-import { doc, increment, updateDoc } from 'firebase/firestore';
 
 interface ImageGeneratorProps {
   user: UserProfile | null;
-  onUpdateCoins: (newBalance: number) => void;
 }
 
 const aspectRatios: AspectRatio[] = ["1:1", "16:9", "9:16", "4:3", "3:4"];
-const IMAGE_COST = 5;
 
-const ImageGenerator: React.FC<ImageGeneratorProps> = ({ user, onUpdateCoins }) => {
+const ImageGenerator: React.FC<ImageGeneratorProps> = ({ user }) => {
   const [prompt, setPrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>("1:1");
   const [legacy, setLegacy] = useState<string>('Default');
   const [numberOfImages, setNumberOfImages] = useState(4);
-  const [images, setImages] = useState<string[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
+  const [jobs, setJobs] = useState<BackgroundJob[]>(() => jobManager.getJobs());
+  const [jobId, setJobId] = useState<string>();
+  const [coinError, setCoinError] = useState('');
+
+  // The batch runs as a background job, so it carries on if the page is left
+  useEffect(() => jobManager.subscribe(setJobs), []);
+
+  const job = findJob(jobs, 'images', jobId);
+  const loading = job?.status === 'running';
+  const images = job?.result?.images ?? [];
+  const error = coinError || job?.error || '';
   
   const isPremium = user?.isPremium ?? false;
-  const hasEnoughCoins = user ? (isPremium || (user.coins ?? 0) >= IMAGE_COST) : false;
+  // Coins already promised to running jobs and chat tools aren't available
+  const availableCoins = user ? (user.coins ?? 0) - jobManager.getReservedCoins(user.uid) : 0;
+  const hasEnoughCoins = user ? (isPremium || availableCoins >= IMAGE_COST) : false;
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!prompt.trim() || loading || !user) return;
     
     if (!hasEnoughCoins) {
-        setError(`You need at least ${IMAGE_COST} coins to generate images. You have ${user.coins ?? 0}.`);
+        setCoinError(`You need at least ${IMAGE_COST} coins to generate images. You have ${availableCoins} not already set aside for running jobs.`);
         return;
     }
 
-    setLoading(true);
-    setImages([]);
-    setError('');
-
-    try {
-      const finalPrompt = legacy !== 'Default' ? `${prompt}, style: ${legacy}` : prompt;
-      const imageUrls = await geminiService.generateImage(finalPrompt, aspectRatio, numberOfImages);
-      setImages(imageUrls);
-      
-      if (!isPremium) {
-        const newBalance = (user.coins ?? 0) - IMAGE_COST;
-
-        // Deduct coins on success - only update Firestore for real users
-        if (!user.isGuest) {
-          const userRef = doc(db, 'users', user.uid);
-          await updateDoc(userRef, {
-              coins: increment(-IMAGE_COST)
-          });
-        }
-        onUpdateCoins(newBalance);
-      }
+    setCoinError('');
+    const finalPrompt = legacy !== 'Default' ? `${prompt}, style: ${legacy}` : prompt;
+    const started = jobManager.start(
+      'images',
+      finalPrompt,
+      async ({ signal }) => ({ images: await geminiService.generateImage(finalPrompt, aspectRatio, numberOfImages, signal) }),
+      {
+        // Coins are taken once the images are ready; cancelled batches are free
+        cost: isPremium ? 0 : IMAGE_COST,
+        user,
+        fallbackError: 'An error occurred while generating the images. Please try again.',
+      },
+    );
+    setJobId(started.id);
+  };
 
-    } catch (err) {
-      console.error(err);
-      setError('An error occurred while generating the images. Please try again.');
-    } finally {
-      setLoading(false);
-    }
+  const handleCancel = () => {
+    if (job) jobManager.cancel(job.id);
   };
 
   return (
@@ -150,7 +148,8 @@ const ImageGenerator: React.FC<ImageGeneratorProps> = ({ user, onUpdateCoins })
               ))}
             </div>
           </div>
-        <div className="flex justify-end pt-2">
+        <div className="flex flex-col-reverse sm:flex-row justify-end gap-2 pt-2">
+            {loading && <CancelButton onClick={handleCancel} className="w-full sm:w-auto" />}
             <button
               type="submit"
               disabled={loading || !prompt.trim() || !user || !hasEnoughCoins}
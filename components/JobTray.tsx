@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BackgroundJob, JobStatus } from '../types';
+import { geminiService } from '../services/geminiService';
+import { JOB_KIND_LABELS, jobManager } from '../services/jobManager';
+import { ArrowDownTrayIcon, CheckCircleIcon, TrashIcon, XCircleIcon } from '../constants';
+import Spinner from './Spinner';
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  interrupted: 'Interrupted',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const VideoResult: React.FC<{ video: Blob }> = ({ video }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(video);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [video]);
+
+  if (!url) return null;
+  return (
+    <div className="space-y-1">
+      <video src={url} className="w-full rounded-lg" controls />
+      <a href={url} download="generated-video.mp4" className="inline-flex items-center gap-1 text-xs font-medium text-green-600 dark:text-green-400 hover:underline">
+        <ArrowDownTrayIcon className="w-4 h-4" /> Download video
+      </a>
+    </div>
+  );
+};
+
+const JobResultView: React.FC<{ job: BackgroundJob }> = ({ job }) => {
+  const { result } = job;
+  if (!result) return null;
+  if (result.video) return <VideoResult video={result.video} />;
+  if (result.images) {
+    return (
+      <div className="grid grid-cols-4 gap-1">
+        {result.images.map((src, index) => (
+          <a key={index} href={src} download={`generated-image-variant-${index + 1}.jpeg`} aria-label={`Download variant ${index + 1}`}>
+            <img src={src} alt={`Generated variant ${index + 1}`} className="w-full aspect-square object-cover rounded" />
+          </a>
+        ))}
+      </div>
+    );
+  }
+  if (result.text) {
+    return (
+      <div
+        className="max-h-40 overflow-y-auto prose prose-sm prose-gray dark:prose-invert max-w-none"
+        dangerouslySetInnerHTML={{ __html: geminiService.formatResponse(result.text) }}
+      />
+    );
+  }
+  return null;
+};
+
+// Lists background jobs (videos, image batches, long analyses) with their
+// status, results and a way to cancel or dismiss each. Hidden while there are none.
+const JobTray: React.FC = () => {
+  const [jobs, setJobs] = useState<BackgroundJob[]>(() => jobManager.getJobs());
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => jobManager.subscribe(setJobs), []);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  if (jobs.length === 0) return null;
+
+  const running = jobs.filter(job => job.status === 'running').length;
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/10 dark:bg-white/10 text-sm text-gray-700 dark:text-gray-200 hover:bg-black/20 dark:hover:bg-white/20 transition-colors"
+        aria-label="Show background jobs"
+      >
+        {running > 0 ? <Spinner size="sm" /> : <CheckCircleIcon className="w-4 h-4" />}
+        {running > 0 ? `${running} running` : 'Jobs'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[70vh] overflow-y-auto p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-50 animate-fade-in-down text-sm">
+          <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+            Jobs keep running while you use other features. Videos carry on after a reload.
+          </p>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {jobs.map(job => (
+              <li key={job.id} className="py-2 space-y-1.5">
+                <div className="flex items-start gap-2">
+                  <button
+                    onClick={() => setExpandedId(expandedId === job.id ? null : job.id)}
+                    disabled={job.status !== 'done'}
+                    className="flex-1 min-w-0 text-left disabled:cursor-default"
+                  >
+                    <p className="truncate text-gray-800 dark:text-gray-200">{job.title}</p>
+                    <p className={`text-xs ${job.status === 'failed' || job.status === 'interrupted' ? 'text-red-500 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                      {JOB_KIND_LABELS[job.kind]} · {job.status === 'running' ? `Running since ${formatTime(job.createdAt)}` : `${STATUS_LABELS[job.status]} at ${formatTime(job.updatedAt)}`}
+                    </p>
+                  </button>
+                  {job.status === 'running' ? (
+                    <button onClick={() => jobManager.cancel(job.id)} className="p-1 text-gray-500 hover:text-red-500" aria-label="Cancel job">
+                      <XCircleIcon className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button onClick={() => jobManager.dismiss(job.id)} className="p-1 text-gray-500 hover:text-red-500" aria-label="Dismiss job">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {job.status === 'running' && job.progress !== undefined && (
+                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5">
+                    <div className="bg-indigo-600 h-1.5 rounded-full" style={{ width: `${job.progress}%` }}></div>
+                  </div>
+                )}
+                {job.error && <p className="text-xs text-red-500 dark:text-red-400">{job.error}</p>}
+                {expandedId === job.id && <JobResultView job={job} />}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobTray;
@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { KnowledgeChunk, KnowledgeDocument } from '../types';
+import { KNOWLEDGE_ACCEPT, knowledgeBase } from '../services/knowledgeBase';
+import { GeminiError, describeError } from '../services/errors';
+import { formatBytes } from '../services/attachments';
+import { ArrowUpTrayIcon, ChevronRightIcon, DocumentTextIcon, TrashIcon } from '../constants';
+import Spinner from './Spinner';
+import CancelButton from './CancelButton';
+
+const DEFAULT_COLLECTION = 'General';
+
+const KnowledgeBaseManager: React.FC = () => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [collection, setCollection] = useState(DEFAULT_COLLECTION);
+  const [isLoading, setIsLoading] = useState(true);
+  const [progress, setProgress] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [openDocument, setOpenDocument] = useState<{ id: string; chunks: KnowledgeChunk[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const collections = [...new Set(documents.map(document => document.collection))].sort();
+
+  useEffect(() => {
+    knowledgeBase.listDocuments()
+      .then(setDocuments)
+      .catch(error => {
+        console.error("Failed to load the knowledge base", error);
+        setErrors(['Could not load your documents. Please try again.']);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []);
+    e.target.value = '';
+    const target = collection.trim() || DEFAULT_COLLECTION;
+    const failures: string[] = [];
+    setErrors([]);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    // One at a time, so a large upload doesn't send every file to the model at once
+    for (const file of files) {
+      try {
+        const document = await knowledgeBase.addDocument(file, target, setProgress, controller.signal);
+        setDocuments(prev => [document, ...prev]);
+      } catch (error) {
+        // Files added before the cancel are kept
+        if (controller.signal.aborted) break;
+        console.error(error);
+        // Our own errors already name the file
+        failures.push(error instanceof GeminiError ? `${file.name}: ${describeError(error)}` : describeError(error, `${file.name} could not be added.`));
+      }
+    }
+    abortControllerRef.current = null;
+    setProgress('');
+    setErrors(failures);
+  };
+
+  const handleDelete = async (document: KnowledgeDocument) => {
+    if (!window.confirm(`Remove "${document.name}" from the knowledge base?`)) return;
+    try {
+      await knowledgeBase.deleteDocument(document.id);
+      setDocuments(prev => prev.filter(d => d.id !== document.id));
+    } catch (error) {
+      console.error("Failed to delete document", error);
+      setErrors([`${document.name} could not be removed. Please try again.`]);
+    }
+  };
+
+  const toggleDocument = async (document: KnowledgeDocument) => {
+    if (openDocument?.id === document.id) {
+      setOpenDocument(null);
+      return;
+    }
+    try {
+      setOpenDocument({ id: document.id, chunks: await knowledgeBase.getChunks(document.id) });
+    } catch (error) {
+      console.error("Failed to load passages", error);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white/60 dark:bg-gray-900/60 backdrop-blur-lg rounded-lg border border-gray-200/50 dark:border-gray-700/50 p-6 space-y-6">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Knowledge Base</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-300">Upload documents, then pick a collection in the chat to answer from them with citations</p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 items-end">
+        <label className="flex-1 w-full block text-sm font-medium text-gray-600 dark:text-gray-300">
+          Collection
+          <input
+            value={collection}
+            onChange={e => setCollection(e.target.value)}
+            list="knowledge-collections"
+            disabled={!!progress}
+            className="mt-1 w-full bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg py-2 px-3 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <datalist id="knowledge-collections">
+            {collections.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </label>
+        <input ref={fileInputRef} type="file" accept={KNOWLEDGE_ACCEPT} multiple onChange={handleFiles} className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!!progress}
+          className="w-full sm:w-auto flex items-center justify-center gap-2 px-5 py-2 bg-gradient-to-br from-indigo-500 to-purple-600 text-white font-semibold rounded-full shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {progress ? <Spinner size="sm" /> : <ArrowUpTrayIcon className="w-5 h-5" />}
+          Add documents
+        </button>
+      </div>
+      <p className="-mt-4 text-xs text-gray-500 dark:text-gray-400">PDF, markdown and text files. Documents stay in this browser.</p>
+
+      {progress && (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-600 dark:text-gray-300">{progress}</p>
+          <CancelButton onClick={() => abortControllerRef.current?.abort()} className="flex-shrink-0" />
+        </div>
+      )}
+      {errors.map(error => <p key={error} className="text-sm text-red-500 dark:text-red-400">{error}</p>)}
+
+      <div className="flex-1 overflow-y-auto space-y-4">
+        {isLoading && <div className="flex justify-center"><Spinner size="lg" /></div>}
+        {!isLoading && documents.length === 0 && (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400">No documents yet.</p>
+        )}
+        {collections.map(name => (
+          <section key={name}>
+            <h3 className="px-1 pb-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">{name}</h3>
+            <ul className="space-y-2">
+              {documents.filter(document => document.collection === name).map(document => (
+                <li key={document.id} className="rounded-lg border border-gray-200 dark:border-gray-700">
+                  <div className="flex items-center gap-2 p-3">
+                    <button onClick={() => toggleDocument(document)} className="flex-1 min-w-0 flex items-center gap-2 text-left" aria-expanded={openDocument?.id === document.id}>
+                      <ChevronRightIcon className={`w-3.5 h-3.5 flex-shrink-0 transition-transform ${openDocument?.id === document.id ? 'rotate-90' : ''}`} />
+                      <DocumentTextIcon className="w-5 h-5 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+                      <span className="truncate text-sm font-medium text-gray-800 dark:text-gray-200">{document.name}</span>
+                      <span className="flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                        {formatBytes(document.size)} · {document.chunkCount} passage{document.chunkCount === 1 ? '' : 's'}
+                      </span>
+                    </button>
+                    <button onClick={() => handleDelete(document)} className="p-1 text-gray-500 hover:text-red-500" aria-label={`Remove ${document.name}`}>
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {openDocument?.id === document.id && (
+                    <ol className="max-h-80 overflow-y-auto border-t border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                      {openDocument.chunks.map(chunk => (
+                        <li key={chunk.id} className="p-3 text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                          <span className="block mb-1 font-semibold text-gray-500 dark:text-gray-400">Passage {chunk.index + 1}</span>
+                          {chunk.text}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeBaseManager;
@@ -1,19 +1,12 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { LiveSession, LiveServerMessage, Blob } from '@google/genai';
+import { LiveServerMessage, Blob } from '@google/genai';
 import { geminiService } from '../services/geminiService';
+import { describeError } from '../services/errors';
+import { LiveSession } from '../services/providers/types';
 import { MicrophoneIcon, StopCircleIcon } from '../constants';
-import { decode, decodeAudioData } from '../services/utils';
+import { encode, decode, decodeAudioData } from '../services/utils';
 
 // Helper function for audio processing
-function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
 function createBlob(data: Float32Array): Blob {
   const l = data.length;
   const int16 = new Int16Array(l);
@@ -168,6 +161,13 @@ const LiveAgent: React.FC = () => {
         },
       });
       sessionPromiseRef.current = sessionPromise;
+      sessionPromise.catch(err => {
+        console.error('Could not connect the live session:', err);
+        if (sessionPromiseRef.current !== sessionPromise) return;
+        sessionPromiseRef.current = null;
+        stopConversation();
+        setStatus(describeError(err, 'Could not connect. Please try again.'));
+      });
     } catch (err) {
       console.error('Error starting conversation:', err);
       setStatus('Could not start conversation. Please check microphone permissions.');
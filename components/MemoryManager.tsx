@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { Memory } from '../types';
+import { UserProfile } from '../App';
+import { createMemory, memoryStore } from '../services/memoryStore';
+import { PencilSquareIcon, PlusIcon, TrashIcon } from '../constants';
+import Spinner from './Spinner';
+
+interface MemoryManagerProps {
+  user: UserProfile;
+}
+
+const inputClass = "w-full p-2 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-white focus:ring-1 focus:ring-indigo-500 focus:outline-none disabled:opacity-60";
+const secondaryButtonClass = "flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50";
+
+const MemoryManager: React.FC<MemoryManagerProps> = ({ user }) => {
+  const [enabled, setEnabled] = useState(false);
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newText, setNewText] = useState('');
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    Promise.all([memoryStore.isEnabled(user), memoryStore.list(user)])
+      .then(([isEnabled, saved]) => {
+        setEnabled(isEnabled);
+        setMemories(saved);
+      })
+      .catch(err => {
+        console.error("Failed to load memories", err);
+        setError('Could not load your memories. Please try again.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [user.uid]);
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = () => run(async () => {
+    await memoryStore.setEnabled(user, !enabled);
+    setEnabled(!enabled);
+  });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newText.trim()) return;
+    const memory = createMemory(newText);
+    run(async () => {
+      await memoryStore.save(user, memory);
+      setMemories(prev => [...prev, memory]);
+      setNewText('');
+    });
+  };
+
+  const handleSaveEdit = () => {
+    if (!editing) return;
+    const original = memories.find(m => m.id === editing.id);
+    if (!original || !editing.text.trim()) return;
+    const memory = { ...original, text: editing.text.trim(), updatedAt: Date.now() };
+    run(async () => {
+      await memoryStore.save(user, memory);
+      setMemories(prev => prev.map(m => (m.id === memory.id ? memory : m)));
+      setEditing(null);
+    });
+  };
+
+  const handleDelete = (memory: Memory) => {
+    if (!window.confirm(`Forget "${memory.text}"?`)) return;
+    run(async () => {
+      await memoryStore.delete(user, memory.id);
+      setMemories(prev => prev.filter(m => m.id !== memory.id));
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white/60 dark:bg-gray-900/60 backdrop-blur-lg rounded-lg border border-gray-200/50 dark:border-gray-700/50 p-6 space-y-6">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Memory</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-300">Facts the chat remembers about you in new conversations</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center"><Spinner size="lg" /></div>
+      ) : (
+        <>
+          <label className="flex items-center justify-between gap-4 p-4 rounded-lg bg-gray-100 dark:bg-gray-800">
+            <span>
+              <span className="block font-medium text-gray-900 dark:text-white">Use memory</span>
+              <span className="block text-sm text-gray-500 dark:text-gray-400">
+                The chat can suggest facts to remember, and saves them only when you approve. Saved facts are added to every new chat.
+              </span>
+            </span>
+            <input type="checkbox" checked={enabled} onChange={handleToggle} disabled={saving} className="w-5 h-5 accent-indigo-600 flex-shrink-0" />
+          </label>
+
+          <form onSubmit={handleAdd} className="flex gap-2">
+            <input
+              value={newText}
+              onChange={e => setNewText(e.target.value)}
+              placeholder='Add a fact, e.g. "Works in IST"'
+              disabled={saving}
+              className={inputClass}
+            />
+            <button type="submit" disabled={saving || !newText.trim()} className={secondaryButtonClass}>
+              <PlusIcon className="w-4 h-4" />
+              Add
+            </button>
+          </form>
+
+          <ul className="flex-1 overflow-y-auto space-y-2">
+            {memories.length === 0 && (
+              <li className="text-sm text-center text-gray-500 dark:text-gray-400">Nothing remembered yet.</li>
+            )}
+            {memories.map(memory => (
+              <li key={memory.id} className="flex items-center gap-2 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                {editing?.id === memory.id ? (
+                  <>
+                    <input
+                      autoFocus
+                      value={editing.text}
+                      onChange={e => setEditing({ id: memory.id, text: e.target.value })}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') handleSaveEdit();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      disabled={saving}
+                      className={inputClass}
+                    />
+                    <button onClick={() => setEditing(null)} disabled={saving} className={secondaryButtonClass}>Cancel</button>
+                    <button onClick={handleSaveEdit} disabled={saving || !editing.text.trim()} className="px-3 py-1.5 text-xs font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 disabled:opacity-50">
+                      Save
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 text-sm text-gray-800 dark:text-gray-200">{memory.text}</span>
+                    <button onClick={() => setEditing({ id: memory.id, text: memory.text })} disabled={saving} className="p-1 text-gray-500 hover:text-indigo-500" aria-label="Edit memory">
+                      <PencilSquareIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(memory)} disabled={saving} className="p-1 text-gray-500 hover:text-red-500" aria-label="Delete memory">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {error && <p className="text-red-500 dark:text-red-400 text-center">{error}</p>}
+    </div>
+  );
+};
+
+export default MemoryManager;
@@ -0,0 +1,73 @@
+import React, { useEffect, useId, useState } from 'react';
+import { geminiService } from '../services/geminiService';
+import { CodeBracketIcon, EyeIcon } from '../constants';
+import Spinner from './Spinner';
+
+interface MermaidDiagramProps {
+  code: string;
+  // Extra header buttons, such as copy
+  actions?: React.ReactNode;
+}
+
+// Mermaid is large, so it is only loaded once a diagram is shown.
+const loadMermaid = async () => {
+  const { default: mermaid } = await import('mermaid');
+  mermaid.initialize({
+    startOnLoad: false,
+    securityLevel: 'strict',
+    theme: document.documentElement.classList.contains('dark') ? 'dark' : 'default',
+  });
+  return mermaid;
+};
+
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code, actions }) => {
+  const [showSource, setShowSource] = useState(false);
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const id = `mermaid-${useId().replace(/[^\w-]/g, '')}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    loadMermaid()
+      .then(mermaid => mermaid.render(id, code))
+      .then(result => {
+        if (!cancelled) setSvg(result.svg);
+      })
+      .catch(err => {
+        console.error("Failed to render Mermaid diagram", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'The diagram could not be rendered.');
+      });
+    return () => { cancelled = true; };
+  }, [code, id]);
+
+  return (
+    <div className="relative my-2 rounded-lg bg-gray-900/80 dark:bg-black/80 overflow-hidden border border-white/10">
+      <div className="flex justify-between items-center px-4 py-1.5 bg-gray-800/80 dark:bg-gray-900/50 text-xs text-gray-400">
+        <span>mermaid</span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setShowSource(prev => !prev)} className="p-1 hover:text-white rounded" title={showSource ? 'Show diagram' : 'Show source'}>
+            {showSource ? <EyeIcon className="w-4 h-4" /> : <CodeBracketIcon className="w-4 h-4" />}
+          </button>
+          {actions}
+        </div>
+      </div>
+      {showSource || error ? (
+        <>
+          {error && <p className="px-4 pt-3 text-xs text-red-400">{error}</p>}
+          <div
+            className="prose dark:prose-invert max-w-none prose-pre:bg-transparent prose-pre:p-4 prose-pre:my-0 text-sm"
+            dangerouslySetInnerHTML={{ __html: geminiService.formatResponse(`\`\`\`mermaid\n${code}\n\`\`\``) }}
+          />
+        </>
+      ) : svg ? (
+        // Rendered with securityLevel 'strict', which sanitizes labels and disables click handlers
+        <div className="p-4 bg-white dark:bg-gray-900 overflow-x-auto flex justify-center" dangerouslySetInnerHTML={{ __html: svg }} />
+      ) : (
+        <div className="p-6 flex justify-center"><Spinner /></div>
+      )}
+    </div>
+  );
+};
+
+export default MermaidDiagram;
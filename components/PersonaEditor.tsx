@@ -0,0 +1,253 @@
+import React, { useRef, useState } from 'react';
+import { HarmBlockThreshold, HarmCategory, SafetySetting } from '@google/genai';
+import { Persona } from '../types';
+import { createPersona, parsePersonas, serializePersonas } from '../services/personaStore';
+import { getModelsFor } from '../services/modelRegistry';
+import { SAFETY_CATEGORIES, SAFETY_THRESHOLDS } from '../services/safety';
+import { XCircleIcon, PlusIcon, ShareIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, TrashIcon } from '../constants';
+import Spinner from './Spinner';
+
+interface PersonaEditorProps {
+  personas: Persona[];
+  initialId: string;
+  onSave: (persona: Persona) => Promise<void>;
+  onDelete: (persona: Persona) => Promise<void>;
+  onImport: (personas: Persona[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "w-full p-2 bg-gray-100 dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-white focus:ring-1 focus:ring-indigo-500 focus:outline-none disabled:opacity-60";
+const secondaryButtonClass = "flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-900 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50";
+
+const downloadJson = (json: string, filename: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ personas, initialId, onSave, onDelete, onImport, onClose }) => {
+  const [draft, setDraft] = useState<Persona>(() => personas.find(p => p.id === initialId) ?? personas[0]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const isNew = !personas.some(p => p.id === draft.id);
+  const readOnly = !!draft.builtIn;
+  const customPersonas = personas.filter(p => !p.builtIn);
+
+  const update = (changes: Partial<Persona>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const run = async (action: () => Promise<void>, successMessage?: string) => {
+    setSaving(true);
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      if (successMessage) setNotice(successMessage);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setThreshold = (category: HarmCategory, threshold: string) => {
+    const others = (draft.safetySettings ?? []).filter(s => s.category !== category);
+    const safetySettings: SafetySetting[] = threshold ? [...others, { category, threshold: threshold as HarmBlockThreshold }] : others;
+    update({ safetySettings: safetySettings.length ? safetySettings : undefined });
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim() || !draft.systemInstruction.trim()) {
+      setError('A persona needs a name and a system instruction.');
+      return;
+    }
+    run(() => onSave({ ...draft, name: draft.name.trim() }), 'Persona saved.');
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the persona "${draft.name}"?`)) return;
+    run(async () => {
+      await onDelete(draft);
+      setDraft(personas[0]);
+    });
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      const imported = parsePersonas(await file.text());
+      await onImport(imported);
+      setDraft(imported[0]);
+      setNotice(`Imported ${imported.length} persona${imported.length === 1 ? '' : 's'}.`);
+    });
+  };
+
+  const handleShare = async () => {
+    const json = serializePersonas([draft]);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: `NexaNeuron persona: ${draft.name}`, text: json });
+      } catch (err) {
+        console.error('Error sharing:', err);
+      }
+    } else {
+      navigator.clipboard.writeText(json);
+      setNotice('Persona copied to the clipboard as JSON. Others can import it from a .json file.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col animate-fade-in-down" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Personas</h3>
+          <div className="flex items-center gap-2">
+            <button onClick={() => importInputRef.current?.click()} disabled={saving} className={secondaryButtonClass}>
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              Import
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+            <button
+              onClick={() => downloadJson(serializePersonas(customPersonas), 'nexaneuron-personas.json')}
+              disabled={customPersonas.length === 0}
+              className={secondaryButtonClass}
+            >
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              Export
+            </button>
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400">
+              <XCircleIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+        <div className="flex flex-1 min-h-0">
+          <nav className="w-48 flex-shrink-0 p-2 space-y-1 overflow-y-auto border-r border-gray-200 dark:border-gray-700">
+            <button onClick={() => setDraft(createPersona())} className="w-full flex items-center gap-2 p-2 text-sm font-medium text-indigo-600 dark:text-indigo-400 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700">
+              <PlusIcon className="w-4 h-4" />
+              New persona
+            </button>
+            {personas.map(persona => (
+              <button
+                key={persona.id}
+                onClick={() => { setDraft(persona); setError(''); setNotice(''); }}
+                className={`w-full text-left p-2 rounded-md text-sm transition-colors ${persona.id === draft.id ? 'bg-indigo-600/50 text-white' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+              >
+                <span className="block truncate">{persona.name}</span>
+                {persona.builtIn && <span className="text-xs text-gray-500 dark:text-gray-400">Built-in</span>}
+              </button>
+            ))}
+          </nav>
+          <div className="flex-1 p-4 space-y-4 overflow-y-auto">
+            {readOnly && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Built-in personas can't be edited. Duplicate this one to make your own version.</p>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Name
+                <input value={draft.name} onChange={e => update({ name: e.target.value })} disabled={readOnly} className={`mt-1 ${inputClass}`} />
+              </label>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Model
+                <input value={draft.model} onChange={e => update({ model: e.target.value })} disabled={readOnly} list="persona-models" placeholder="Chat model from Settings" className={`mt-1 ${inputClass}`} />
+                <datalist id="persona-models">
+                  {getModelsFor('chat').map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                </datalist>
+              </label>
+            </div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Description
+              <input value={draft.description} onChange={e => update({ description: e.target.value })} disabled={readOnly} className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              System instruction
+              <textarea value={draft.systemInstruction} onChange={e => update({ systemInstruction: e.target.value })} disabled={readOnly} rows={5} className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Greeting <span className="font-normal text-gray-500 dark:text-gray-400">(shown when a chat starts)</span>
+              <textarea value={draft.greeting ?? ''} onChange={e => update({ greeting: e.target.value || undefined })} disabled={readOnly} rows={2} className={`mt-1 ${inputClass}`} />
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {([['temperature', 'Temperature', 2], ['topP', 'Top P', 1]] as const).map(([key, label, max]) => (
+                <div key={key} className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  <div className="flex items-center justify-between">
+                    <span>{label}: {draft[key] ?? 'default'}</span>
+                    {draft[key] !== undefined && !readOnly && (
+                      <button onClick={() => update({ [key]: undefined })} className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline">Reset</button>
+                    )}
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={max}
+                    step={0.05}
+                    value={draft[key] ?? max / 2}
+                    onChange={e => update({ [key]: Number(e.target.value) })}
+                    disabled={readOnly}
+                    className="w-full mt-1"
+                  />
+                </div>
+              ))}
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Safety settings</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {SAFETY_CATEGORIES.map(({ category, label }) => (
+                  <label key={category} className="flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    {label}
+                    <select
+                      value={draft.safetySettings?.find(s => s.category === category)?.threshold ?? ''}
+                      onChange={e => setThreshold(category, e.target.value)}
+                      disabled={readOnly}
+                      className="p-1.5 bg-gray-100 dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-sm disabled:opacity-60"
+                    >
+                      <option value="">Default</option>
+                      {SAFETY_THRESHOLDS.map(({ threshold, label }) => <option key={threshold} value={threshold}>{label}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            {notice && <p className="text-green-600 dark:text-green-400 text-sm">{notice}</p>}
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2 p-3 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <div className="flex items-center gap-2">
+            <button onClick={() => setDraft(createPersona(draft))} disabled={saving} className={secondaryButtonClass}>
+              <PlusIcon className="w-4 h-4" />
+              Duplicate
+            </button>
+            <button onClick={handleShare} disabled={saving} className={secondaryButtonClass}>
+              <ShareIcon className="w-4 h-4" />
+              Share
+            </button>
+            {!readOnly && !isNew && (
+              <button onClick={handleDelete} disabled={saving} className={`${secondaryButtonClass} hover:text-red-500`}>
+                <TrashIcon className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+          </div>
+          {!readOnly && (
+            <button onClick={handleSave} disabled={saving} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 disabled:opacity-50">
+              {saving && <Spinner size="sm" />}
+              Save
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaEditor;
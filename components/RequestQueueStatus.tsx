@@ -0,0 +1,59 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { geminiService } from '../services/geminiService';
+import { findModel } from '../services/modelRegistry';
+import { SchedulerState } from '../services/requestScheduler';
+import Spinner from './Spinner';
+
+// Shows the requests held back by the rate limiter, and where each one is in
+// its model's queue. Hidden while nothing is waiting.
+const RequestQueueStatus: React.FC = () => {
+  const [state, setState] = useState<SchedulerState>(() => geminiService.getQueueState());
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => geminiService.onQueueChange(setState), []);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  if (state.queued.length === 0) return null;
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/10 dark:bg-white/10 text-sm text-gray-700 dark:text-gray-200 hover:bg-black/20 dark:hover:bg-white/20 transition-colors"
+        aria-label="Show queued requests"
+      >
+        <Spinner size="sm" />
+        {state.queued.length} queued
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-50 animate-fade-in-down text-sm">
+          <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+            Waiting to stay within each model's rate limit. Chat goes ahead of other requests.
+          </p>
+          <ul className="space-y-1">
+            {state.queued.map(request => (
+              <li key={request.id} className="flex items-center justify-between gap-2 text-gray-800 dark:text-gray-200">
+                <span className="truncate">{findModel(request.model)?.label ?? request.model}</span>
+                <span className="flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                  #{request.position}{request.priority === 'interactive' ? ' · chat' : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RequestQueueStatus;
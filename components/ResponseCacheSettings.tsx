@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { CACHED_KIND_LABELS, CacheEntry, CacheSettings, getCacheSettings, responseCache, saveCacheSettings } from '../services/responseCache';
+import { findModel } from '../services/modelRegistry';
+import { formatBytes } from '../services/attachments';
+import { TrashIcon } from '../constants';
+
+const inputClass = "w-24 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg py-1.5 px-2 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const ResponseCacheSettings: React.FC = () => {
+  const [settings, setSettings] = useState<CacheSettings>(getCacheSettings);
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [error, setError] = useState('');
+
+  const loadEntries = () => {
+    responseCache.list()
+      .then(setEntries)
+      .catch(err => {
+        console.error("Failed to load the response cache", err);
+        setError('Could not read the cache.');
+      });
+  };
+
+  useEffect(loadEntries, []);
+
+  const updateSettings = (changes: Partial<CacheSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveCacheSettings(next);
+  };
+
+  // Empty or out-of-range numbers keep the previous value
+  const handleNumber = (field: 'ttlHours' | 'maxSizeMb', value: string) => {
+    const n = Number(value);
+    if (value && Number.isFinite(n) && n > 0) updateSettings({ [field]: n });
+  };
+
+  const handleDelete = async (key: string) => {
+    try {
+      await responseCache.delete(key);
+      setEntries(prev => prev.filter(entry => entry.key !== key));
+    } catch (err) {
+      console.error("Failed to delete a cached response", err);
+      setError('Could not remove the entry. Please try again.');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Remove every cached response?')) return;
+    try {
+      await responseCache.clear();
+      setEntries([]);
+    } catch (err) {
+      console.error("Failed to clear the response cache", err);
+      setError('Could not clear the cache. Please try again.');
+    }
+  };
+
+  const totalSize = entries.reduce((total, entry) => total + entry.size, 0);
+
+  return (
+    <section className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Response cache</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Reuse answers to identical image analyses, searches and speech requests instead of paying for them again. Cached results are marked, with a button to fetch a fresh one.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={e => updateSettings({ enabled: e.target.checked })}
+            className="form-checkbox h-4 w-4 text-indigo-600 rounded focus:ring-indigo-500"
+          />
+          Cache responses
+        </label>
+        <label className="flex items-center gap-2">
+          Keep for
+          <input type="number" min="1" defaultValue={settings.ttlHours} onChange={e => handleNumber('ttlHours', e.target.value)} className={inputClass} />
+          hours
+        </label>
+        <label className="flex items-center gap-2">
+          Up to
+          <input type="number" min="1" defaultValue={settings.maxSizeMb} onChange={e => handleNumber('maxSizeMb', e.target.value)} className={inputClass} />
+          MB
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {entries.length} cached response{entries.length === 1 ? '' : 's'} · {formatBytes(totalSize)}
+        </p>
+        <button
+          onClick={handleClear}
+          disabled={entries.length === 0}
+          className="text-sm font-medium text-red-600 dark:text-red-400 hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          Clear cache
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+      {entries.length > 0 && (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+          {entries.map(entry => (
+            <li key={entry.key} className="flex items-center gap-2 p-3">
+              <div className="flex-1 min-w-0">
+                <p className="truncate text-sm text-gray-800 dark:text-gray-200">{entry.label}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {CACHED_KIND_LABELS[entry.kind]} · {findModel(entry.model)?.label ?? entry.model} · {formatBytes(entry.size)} · expires {new Date(entry.expiresAt).toLocaleString()}
+                </p>
+              </div>
+              <button onClick={() => handleDelete(entry.key)} className="p-1 text-gray-500 hover:text-red-500" aria-label={`Remove cached ${CACHED_KIND_LABELS[entry.kind].toLowerCase()}`}>
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ResponseCacheSettings;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { HarmProbability } from '@google/genai';
+import { SafetyFeedback } from '../types';
+import { describeSafetyFeedback, formatProbability, getBlockingCategories, getCategoryLabel, isAdjustable } from '../services/safety';
+import { ShieldExclamationIcon } from '../constants';
+
+interface SafetyNoticeProps {
+  feedback: SafetyFeedback;
+  // Where the thresholds for this feature can be changed
+  adjustHint?: string;
+}
+
+// Why a prompt or answer was blocked, with the ratings Gemini gave it.
+const SafetyNotice: React.FC<SafetyNoticeProps> = ({ feedback, adjustHint = 'Advanced settings' }) => {
+  const flagged = getBlockingCategories(feedback);
+  const ratings = feedback.ratings.filter(rating => rating.probability !== HarmProbability.NEGLIGIBLE);
+
+  return (
+    <div className="mt-2 p-3 rounded-lg border border-yellow-500/40 bg-yellow-50 dark:bg-yellow-900/20 text-sm text-gray-800 dark:text-gray-200 space-y-2">
+      <p className="flex items-start gap-2">
+        <ShieldExclamationIcon className="w-5 h-5 flex-shrink-0 text-yellow-600 dark:text-yellow-400" />
+        {describeSafetyFeedback(feedback)}
+      </p>
+      {ratings.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5">
+          {ratings.map(rating => (
+            <li
+              key={rating.category}
+              className={`px-2 py-0.5 rounded-full text-xs ${flagged.includes(rating.category) ? 'bg-red-500/15 text-red-600 dark:text-red-400' : 'bg-gray-200 dark:bg-gray-800 text-gray-600 dark:text-gray-400'}`}
+            >
+              {getCategoryLabel(rating.category)}: {formatProbability(rating.probability)}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {isAdjustable(feedback)
+          ? `You can loosen the filter for ${flagged.map(getCategoryLabel).join(', ').toLowerCase()} under ${adjustHint} and try again.`
+          : 'This block is part of the usage policy and cannot be turned off. Try rephrasing your request.'}
+      </p>
+    </div>
+  );
+};
+
+export default SafetyNotice;
@@ -0,0 +1,73 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TokenUsage } from '../types';
+import { addUsage, geminiService } from '../services/geminiService';
+import { findModel } from '../services/modelRegistry';
+import { estimateCost, formatCost, formatTokens } from '../services/pricing';
+
+// Adds up the tokens every request has used since the page loaded, in chat and
+// every other feature, with an estimated price per model. Hidden until the
+// first response reports its usage.
+const SessionUsage: React.FC = () => {
+  const [byModel, setByModel] = useState<Record<string, TokenUsage>>({});
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => geminiService.onUsage(usage => {
+    setByModel(prev => ({ ...prev, [usage.model]: addUsage(prev[usage.model], usage) }));
+  }), []);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const models: TokenUsage[] = Object.values(byModel);
+  if (models.length === 0) return null;
+
+  const totalTokens = models.reduce((total, usage) => total + usage.totalTokens, 0);
+  // Models missing from the pricing table are left out of the total
+  const totalCost = models.reduce((total, usage) => total + (estimateCost(usage) ?? 0), 0);
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/10 dark:bg-white/10 text-sm text-gray-700 dark:text-gray-200 hover:bg-black/20 dark:hover:bg-white/20 transition-colors"
+        aria-label="Show token usage"
+      >
+        {formatTokens(totalTokens)} tokens · {formatCost(totalCost)}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-50 animate-fade-in-down text-sm">
+          <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+            Tokens used since the page loaded, with an estimated price.
+          </p>
+          <ul className="space-y-1">
+            {models.map(usage => {
+              const cost = estimateCost(usage);
+              return (
+                <li
+                  key={usage.model}
+                  className="flex items-center justify-between gap-2 text-gray-800 dark:text-gray-200"
+                  title={`${formatTokens(usage.promptTokens)} prompt, ${formatTokens(usage.candidatesTokens)} output and ${formatTokens(usage.thinkingTokens)} thinking tokens`}
+                >
+                  <span className="truncate">{findModel(usage.model)?.label ?? usage.model}</span>
+                  <span className="flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                    {formatTokens(usage.totalTokens)}{cost !== undefined && ` · ${formatCost(cost)}`}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionUsage;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { MODEL_TASKS, ModelInfo, ModelTask, findModel, getModelChoices, getModelsFor, resolveModel, setModelChoice } from '../services/modelRegistry';
+import ResponseCacheSettings from './ResponseCacheSettings';
+
+const selectClass = "w-full bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg py-2 px-3 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const formatLimit = (tokens: number) => {
+  if (tokens >= 1_048_576) return `${Math.round(tokens / 1_048_576)}M`;
+  return tokens >= 1024 ? `${Math.round(tokens / 1024)}K` : String(tokens);
+};
+
+const describeModel = (model: ModelInfo) => [
+  model.inputTokenLimit && `${formatLimit(model.inputTokenLimit)} input tokens`,
+  model.outputTokenLimit && `${formatLimit(model.outputTokenLimit)} output tokens`,
+  model.preview && 'preview, may change or be withdrawn',
+].filter(Boolean).join(' · ');
+
+const Settings: React.FC = () => {
+  const [choices, setChoices] = useState(getModelChoices);
+
+  const handleChange = (task: ModelTask, id: string) => {
+    setModelChoice(task, id || null);
+    setChoices(getModelChoices());
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white/60 dark:bg-gray-900/60 backdrop-blur-lg rounded-lg border border-gray-200/50 dark:border-gray-700/50 p-6 space-y-6 overflow-y-auto">
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Settings</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-300">Saved in this browser</p>
+      </div>
+
+      <section className="space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Models</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Pick the model each feature uses. If a model is retired or unavailable, the feature falls back to its default.
+          </p>
+        </div>
+        {(Object.keys(MODEL_TASKS) as ModelTask[]).map(task => {
+          const { label, description, defaultModel } = MODEL_TASKS[task];
+          const chosen = choices[task];
+          const active = resolveModel(task);
+          const activeInfo = findModel(active);
+          const options = getModelsFor(task);
+          return (
+            <div key={task} className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-4 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+              <div>
+                <p className="font-medium text-gray-900 dark:text-white">{label}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{description}</p>
+              </div>
+              <div className="space-y-1">
+                <select value={chosen ?? ''} onChange={e => handleChange(task, e.target.value)} aria-label={`${label} model`} className={selectClass}>
+                  <option value="">Default ({findModel(defaultModel)?.label ?? defaultModel})</option>
+                  {options.map(model => (
+                    <option key={model.id} value={model.id}>{model.label}{model.preview ? ' (preview)' : ''}</option>
+                  ))}
+                  {chosen && !options.some(model => model.id === chosen) && (
+                    <option value={chosen}>{findModel(chosen)?.label ?? chosen} (retired)</option>
+                  )}
+                </select>
+                {chosen && chosen !== active && (
+                  <p className="text-xs text-yellow-600 dark:text-yellow-400">
+                    {findModel(chosen)?.label ?? chosen} is no longer available, so {activeInfo?.label ?? active} is used.
+                  </p>
+                )}
+                {activeInfo && <p className="text-xs text-gray-500 dark:text-gray-400">{describeModel(activeInfo)}</p>}
+              </div>
+            </div>
+          );
+        })}
+      </section>
+
+      <ResponseCacheSettings />
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,73 @@
+import React, { useEffect, useRef } from 'react';
+import { PaletteItem } from '../services/slashCommands';
+import { templateCommand } from '../services/templateStore';
+import { PencilSquareIcon } from '../constants';
+
+interface SlashCommandPaletteProps {
+  items: PaletteItem[];
+  activeIndex: number;
+  onSelect: (item: PaletteItem) => void;
+  onHover: (index: number) => void;
+  onManageTemplates: () => void;
+}
+
+const SlashCommandPalette: React.FC<SlashCommandPaletteProps> = ({ items, activeIndex, onSelect, onHover, onManageTemplates }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 max-h-80 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl z-20 p-2 animate-fade-in-down" role="listbox">
+      {items.length === 0 && (
+        <p className="px-2 py-2 text-sm text-gray-500 dark:text-gray-400">No matching commands or templates.</p>
+      )}
+      {items.map((item, index) => {
+        const isActive = index === activeIndex;
+        const isFirstTemplate = item.kind === 'template' && items[index - 1]?.kind !== 'template';
+        return (
+          <React.Fragment key={item.kind === 'command' ? item.command.name : item.template.id}>
+            {isFirstTemplate && <p className="px-2 pt-2 pb-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">Templates</p>}
+            <button
+              type="button"
+              ref={isActive ? activeRef : undefined}
+              role="option"
+              aria-selected={isActive}
+              // Keeps focus in the composer
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => onSelect(item)}
+              onMouseEnter={() => onHover(index)}
+              className={`w-full flex items-baseline gap-2 text-left px-2 py-1.5 rounded-md text-sm ${isActive ? 'bg-indigo-600/50 text-white' : 'text-gray-700 dark:text-gray-300'}`}
+            >
+              {item.kind === 'command' ? (
+                <>
+                  <span className="font-mono font-medium text-gray-900 dark:text-white">/{item.command.name}</span>
+                  {item.command.usage && <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{item.command.usage}</span>}
+                  <span className="ml-auto text-xs text-gray-500 dark:text-gray-300 truncate">{item.command.description}</span>
+                </>
+              ) : (
+                <>
+                  <span className="font-mono font-medium text-gray-900 dark:text-white">/{templateCommand(item.template)}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{item.template.category}</span>
+                  <span className="ml-auto text-xs text-gray-500 dark:text-gray-300 truncate">{item.template.description}</span>
+                </>
+              )}
+            </button>
+          </React.Fragment>
+        );
+      })}
+      <button
+        type="button"
+        onMouseDown={e => e.preventDefault()}
+        onClick={onManageTemplates}
+        className="w-full flex items-center gap-2 mt-1 p-2 text-sm font-medium text-indigo-600 dark:text-indigo-400 rounded-md border-t border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700"
+      >
+        <PencilSquareIcon className="w-4 h-4" />
+        Manage templates
+      </button>
+    </div>
+  );
+};
+
+export default SlashCommandPalette;
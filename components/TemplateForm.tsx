@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { PromptTemplate } from '../types';
+import { extractVariables, fillTemplate } from '../services/templateStore';
+import { XCircleIcon } from '../constants';
+
+interface TemplateFormProps {
+  template: PromptTemplate;
+  onSubmit: (prompt: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full p-2 bg-gray-100 dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-white focus:ring-1 focus:ring-indigo-500 focus:outline-none";
+
+// Asks for the template's {{variables}} and hands back the filled-in prompt.
+const TemplateForm: React.FC<TemplateFormProps> = ({ template, onSubmit, onClose }) => {
+  const variables = extractVariables(template.body);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(fillTemplate(template.body, values));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg flex flex-col animate-fade-in-down" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">{template.name}</h3>
+            {template.description && <p className="text-xs text-gray-500 dark:text-gray-400">{template.description}</p>}
+          </div>
+          <button type="button" onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400">
+            <XCircleIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-4 space-y-3 max-h-[60vh] overflow-y-auto">
+          {variables.map((name, i) => (
+            <label key={name} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              {name}
+              <textarea
+                autoFocus={i === 0}
+                rows={2}
+                value={values[name] ?? ''}
+                onChange={e => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+          ))}
+          <div>
+            <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Preview</p>
+            <p className="p-2 rounded-md bg-gray-100 dark:bg-gray-900 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{fillTemplate(template.body, values)}</p>
+          </div>
+        </div>
+        <div className="flex justify-end gap-2 p-3 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-900 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700">
+            Cancel
+          </button>
+          <button type="submit" className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-500">
+            Use prompt
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TemplateForm;
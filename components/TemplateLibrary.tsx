@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { PromptTemplate } from '../types';
+import { createTemplate, extractVariables, parseTemplates, serializeTemplates, templateCommand } from '../services/templateStore';
+import { downloadBlob } from '../services/utils';
+import { XCircleIcon, PlusIcon, ShareIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, TrashIcon } from '../constants';
+import Spinner from './Spinner';
+
+interface TemplateLibraryProps {
+  templates: PromptTemplate[];
+  onSave: (template: PromptTemplate) => Promise<void>;
+  onDelete: (template: PromptTemplate) => Promise<void>;
+  onImport: (templates: PromptTemplate[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "w-full p-2 bg-gray-100 dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-900 dark:text-white focus:ring-1 focus:ring-indigo-500 focus:outline-none disabled:opacity-60";
+const secondaryButtonClass = "flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-900 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50";
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ templates, onSave, onDelete, onImport, onClose }) => {
+  const [draft, setDraft] = useState<PromptTemplate>(() => templates[0] ?? createTemplate());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const isNew = !templates.some(t => t.id === draft.id);
+  const categories = [...new Set(templates.map(t => t.category))];
+  const variables = extractVariables(draft.body);
+
+  const update = (changes: Partial<PromptTemplate>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const run = async (action: () => Promise<void>, successMessage?: string) => {
+    setSaving(true);
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      if (successMessage) setNotice(successMessage);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const select = (template: PromptTemplate) => {
+    setDraft(template);
+    setError('');
+    setNotice('');
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim() || !draft.body.trim()) {
+      setError('A template needs a name and a prompt.');
+      return;
+    }
+    const template = { ...draft, name: draft.name.trim(), category: draft.category.trim() || 'General' };
+    run(async () => {
+      await onSave(template);
+      setDraft(template);
+    }, 'Template saved.');
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the template "${draft.name}"?`)) return;
+    run(async () => {
+      await onDelete(draft);
+      setDraft(templates.find(t => t.id !== draft.id) ?? createTemplate());
+    });
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      const imported = parseTemplates(await file.text());
+      await onImport(imported);
+      setDraft(imported[0]);
+      setNotice(`Imported ${imported.length} template${imported.length === 1 ? '' : 's'}.`);
+    });
+  };
+
+  const handleShare = async () => {
+    const json = serializeTemplates([draft]);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: `NexaNeuron template: ${draft.name}`, text: json });
+      } catch (err) {
+        console.error('Error sharing:', err);
+      }
+    } else {
+      navigator.clipboard.writeText(json);
+      setNotice('Template copied to the clipboard as JSON. Others can import it from a .json file.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col animate-fade-in-down" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Prompt templates</h3>
+          <div className="flex items-center gap-2">
+            <button onClick={() => importInputRef.current?.click()} disabled={saving} className={secondaryButtonClass}>
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              Import
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+            <button
+              onClick={() => downloadBlob(new Blob([serializeTemplates(templates)], { type: 'application/json' }), 'nexaneuron-templates.json')}
+              disabled={templates.length === 0}
+              className={secondaryButtonClass}
+            >
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              Export
+            </button>
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400">
+              <XCircleIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+        <div className="flex flex-1 min-h-0">
+          <nav className="w-52 flex-shrink-0 p-2 space-y-1 overflow-y-auto border-r border-gray-200 dark:border-gray-700">
+            <button onClick={() => select(createTemplate())} className="w-full flex items-center gap-2 p-2 text-sm font-medium text-indigo-600 dark:text-indigo-400 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700">
+              <PlusIcon className="w-4 h-4" />
+              New template
+            </button>
+            {categories.map(category => (
+              <div key={category}>
+                <p className="px-2 pt-2 pb-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase truncate">{category}</p>
+                {templates.filter(t => t.category === category).map(template => (
+                  <button
+                    key={template.id}
+                    onClick={() => select(template)}
+                    className={`w-full text-left p-2 rounded-md text-sm transition-colors ${template.id === draft.id ? 'bg-indigo-600/50 text-white' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                  >
+                    <span className="block truncate">{template.name}</span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </nav>
+          <div className="flex-1 p-4 space-y-4 overflow-y-auto">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Name
+                <input value={draft.name} onChange={e => update({ name: e.target.value })} className={`mt-1 ${inputClass}`} />
+                {templateCommand(draft) && <span className="text-xs font-normal text-gray-500 dark:text-gray-400">Type /{templateCommand(draft)} in the chat</span>}
+              </label>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Category
+                <input value={draft.category} onChange={e => update({ category: e.target.value })} list="template-categories" className={`mt-1 ${inputClass}`} />
+                <datalist id="template-categories">
+                  {categories.map(category => <option key={category} value={category} />)}
+                </datalist>
+              </label>
+            </div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Description
+              <input value={draft.description} onChange={e => update({ description: e.target.value })} className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Prompt <span className="font-normal text-gray-500 dark:text-gray-400">(use {'{{name}}'} for parts to fill in)</span>
+              <textarea value={draft.body} onChange={e => update({ body: e.target.value })} rows={10} className={`mt-1 font-mono ${inputClass}`} />
+            </label>
+            {variables.length > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Asks for: {variables.map(name => <span key={name} className="inline-block mr-1 px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-900 font-mono">{name}</span>)}
+              </p>
+            )}
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            {notice && <p className="text-green-600 dark:text-green-400 text-sm">{notice}</p>}
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2 p-3 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
+          <div className="flex items-center gap-2">
+            <button onClick={() => select(createTemplate(draft))} disabled={saving} className={secondaryButtonClass}>
+              <PlusIcon className="w-4 h-4" />
+              Duplicate
+            </button>
+            <button onClick={handleShare} disabled={saving || !draft.body.trim()} className={secondaryButtonClass}>
+              <ShareIcon className="w-4 h-4" />
+              Share
+            </button>
+            {!isNew && (
+              <button onClick={handleDelete} disabled={saving} className={`${secondaryButtonClass} hover:text-red-500`}>
+                <TrashIcon className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+          </div>
+          <button onClick={handleSave} disabled={saving} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 disabled:opacity-50">
+            {saving && <Spinner size="sm" />}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLibrary;
@@ -1,7 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { geminiService } from '../services/geminiService';
+import { describeError } from '../services/errors';
 import { SpeakerWaveIcon, TTS_VOICES, ArrowDownTrayIcon } from '../constants';
 import Spinner from './Spinner';
+import CancelButton from './CancelButton';
+import CachedNotice from './CachedNotice';
 import { decode, decodeAudioData, pcmToWavBlob } from '../services/utils';
 
 const VOICE_STORAGE_KEY = 'gemini-tts-voice';
@@ -14,7 +17,11 @@ const TextToSpeech: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   useEffect(() => {
     localStorage.setItem(VOICE_STORAGE_KEY, selectedVoice);
@@ -29,8 +36,7 @@ const TextToSpeech: React.FC = () => {
     };
   }, [audioUrl]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const generate = async (refresh: boolean) => {
     if (!text.trim() || loading) return;
 
     // Revoke old URL if it exists
@@ -41,6 +47,9 @@ const TextToSpeech: React.FC = () => {
 
     setLoading(true);
     setError('');
+    setCachedAt(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
       if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
@@ -48,7 +57,8 @@ const TextToSpeech: React.FC = () => {
       }
       const audioContext = audioContextRef.current;
 
-      const base64Audio = await geminiService.generateSpeech(text, selectedVoice);
+      const base64Audio = await geminiService.generateSpeech(text, selectedVoice, controller.signal, { refresh, onCacheHit: setCachedAt });
+      if (controller.signal.aborted) return;
       const decodedPcm = decode(base64Audio);
 
       // Create downloadable WAV blob
@@ -68,13 +78,28 @@ const TextToSpeech: React.FC = () => {
       source.start();
 
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error(err);
-      setError('An error occurred while generating speech. Please try again.');
+      setError(describeError(err, 'An error occurred while generating speech. Please try again.'));
     } finally {
-      setLoading(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    generate(false);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setLoading(false);
+  };
+
   return (
     <div className="flex flex-col h-full bg-white/60 dark:bg-gray-900/60 backdrop-blur-lg rounded-lg border border-gray-200/50 dark:border-gray-700/50 p-6 space-y-6">
       <div className="text-center">
@@ -111,9 +136,11 @@ const TextToSpeech: React.FC = () => {
             {loading ? <Spinner /> : <SpeakerWaveIcon />}
             {loading ? 'Generating...' : 'Generate Speech'}
           </button>
+          {loading && <CancelButton onClick={handleCancel} className="w-full sm:w-auto" />}
         </div>
       </form>
 
+      {audioUrl && cachedAt && <CachedNotice cachedAt={cachedAt} onRefresh={() => generate(true)} disabled={loading} />}
       {audioUrl && (
         <div className="mt-4 text-center">
           <a
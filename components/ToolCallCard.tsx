@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ToolCallRecord } from '../types';
+import { CHAT_TOOLS } from '../services/chatTools';
+import { CodeBracketIcon, CoinIcon, ChevronRightIcon } from '../constants';
+import Spinner from './Spinner';
+
+interface ToolCallCardProps {
+  call: ToolCallRecord;
+  onConfirm: (approved: boolean) => void;
+}
+
+const STATUS_LABELS: Record<ToolCallRecord['status'], string> = {
+  'awaiting-confirmation': 'Needs your OK',
+  running: 'Running',
+  done: 'Done',
+  declined: 'Skipped',
+  error: 'Failed',
+};
+
+const STATUS_CLASSES: Record<ToolCallRecord['status'], string> = {
+  'awaiting-confirmation': 'text-yellow-600 dark:text-yellow-400',
+  running: 'text-indigo-600 dark:text-indigo-400',
+  done: 'text-green-600 dark:text-green-400',
+  declined: 'text-gray-500 dark:text-gray-400',
+  error: 'text-red-500',
+};
+
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ call, onConfirm }) => {
+  const [expanded, setExpanded] = useState(false);
+  const label = CHAT_TOOLS[call.name]?.label ?? call.name;
+  const approval = CHAT_TOOLS[call.name]?.approval;
+
+  return (
+    <div className="my-2 rounded-lg border border-gray-300/70 dark:border-gray-700 bg-white/60 dark:bg-gray-900/60 text-sm overflow-hidden">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-800"
+        aria-expanded={expanded}
+      >
+        <ChevronRightIcon className={`w-3.5 h-3.5 flex-shrink-0 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+        <CodeBracketIcon className="w-4 h-4 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+        <span className="flex-1 font-medium text-gray-800 dark:text-gray-100 truncate">{label}</span>
+        {call.status === 'running' && <Spinner size="sm" />}
+        <span className={`text-xs font-medium ${STATUS_CLASSES[call.status]}`}>{STATUS_LABELS[call.status]}</span>
+      </button>
+
+      {call.status === 'awaiting-confirmation' && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 border-t border-gray-300/70 dark:border-gray-700">
+          {call.cost ? (
+            <span className="flex items-center gap-1.5 text-gray-700 dark:text-gray-300">
+              <CoinIcon className="w-4 h-4" />
+              This will spend {call.cost} coins.
+            </span>
+          ) : (
+            <span className="text-gray-700 dark:text-gray-300">{approval?.prompt(call.args)}</span>
+          )}
+          <div className="flex gap-2">
+            <button onClick={() => onConfirm(false)} className="px-3 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700">
+              Skip
+            </button>
+            <button onClick={() => onConfirm(true)} className="px-3 py-1 text-xs font-medium text-white bg-indigo-600 rounded-full hover:bg-indigo-500">
+              {approval && !call.cost ? approval.action : 'Run'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {expanded && (
+        <div className="px-3 py-2 space-y-2 border-t border-gray-300/70 dark:border-gray-700 text-xs">
+          <div>
+            <p className="font-semibold text-gray-600 dark:text-gray-400 mb-1">Arguments</p>
+            <pre className="p-2 rounded bg-gray-100 dark:bg-black/60 text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-all">{JSON.stringify(call.args, null, 2)}</pre>
+          </div>
+          {call.result && (
+            <div>
+              <p className="font-semibold text-gray-600 dark:text-gray-400 mb-1">Result</p>
+              <pre className="p-2 rounded bg-gray-100 dark:bg-black/60 text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-all">{JSON.stringify(call.result, null, 2)}</pre>
+            </div>
+          )}
+        </div>
+      )}
+
+      {call.error && <p className="px-3 py-2 text-xs text-red-500 border-t border-gray-300/70 dark:border-gray-700">{call.error}</p>}
+
+      {call.images?.map((src, i) => (
+        <img key={i} src={src} alt={String(call.args.prompt ?? 'Generated image')} className="block max-w-full max-h-80 mx-auto p-2" />
+      ))}
+      {call.audio && <audio controls src={call.audio} className="w-full p-2" />}
+    </div>
+  );
+};
+
+export default ToolCallCard;
@@ -1,7 +1,14 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { geminiService } from '../services/geminiService';
+import { loadGenerationParams } from '../services/generationParams';
+import { resolveModel } from '../services/modelRegistry';
+import { findJob, jobManager } from '../services/jobManager';
+import { BackgroundJob } from '../types';
 import { FilmIcon, SparklesIcon } from '../constants';
 import Spinner from './Spinner';
+import GenerationSettings from './GenerationSettings';
+import SafetyNotice from './SafetyNotice';
+import CancelButton from './CancelButton';
 
 const VideoAnalyzer: React.FC = () => {
   const [analysisMode, setAnalysisMode] = useState<'upload' | 'url'>('upload');
@@ -9,10 +16,20 @@ const VideoAnalyzer: React.FC = () => {
   const [video, setVideo] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState('');
   const [videoPreview, setVideoPreview] = useState<string | null>(null);
-  const [result, setResult] = useState('');
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
-  const [progress, setProgress] = useState(0);
+  const [params, setParams] = useState(() => loadGenerationParams('videoAnalysis'));
+  const [jobs, setJobs] = useState<BackgroundJob[]>(() => jobManager.getJobs());
+  // null once the inputs change, so an old analysis doesn't linger
+  const [jobId, setJobId] = useState<string | null>();
+
+  // The analysis runs as a background job, so it carries on if the page is left
+  useEffect(() => jobManager.subscribe(setJobs), []);
+
+  const job = findJob(jobs, 'videoAnalysis', jobId);
+  const loading = job?.status === 'running';
+  const result = job?.result?.text ?? '';
+  const blocked = job?.safety ?? null;
+  const error = blocked ? '' : job?.error ?? '';
+  const progress = job?.progress ?? 0;
 
   const cleanupPreview = () => {
     if (videoPreview && videoPreview.startsWith('blob:')) {
@@ -25,9 +42,7 @@ const VideoAnalyzer: React.FC = () => {
     setVideo(null);
     setVideoUrl('');
     setVideoPreview(null);
-    setResult('');
-    setError('');
-    setProgress(0);
+    setJobId(null);
   };
 
   const handleVideoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -53,30 +68,22 @@ const VideoAnalyzer: React.FC = () => {
     setAnalysisMode(mode);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const videoSource = analysisMode === 'upload' ? video : videoUrl;
     if (!videoSource || !prompt.trim() || loading) return;
 
-    setLoading(true);
-    setResult('');
-    setError('');
-    setProgress(0);
-
-    try {
-      const response = await geminiService.analyzeVideo(prompt, videoSource, (p) => setProgress(p));
-      setResult(response);
-    } catch (err) {
-      console.error(err);
-      if (err instanceof Error) {
-        setError(err.message);
-      } else {
-        setError('An error occurred while analyzing the video. Please try again.');
-      }
-    } finally {
-      setLoading(false);
-      setProgress(100);
-    }
+    const started = jobManager.start(
+      'videoAnalysis',
+      prompt,
+      async ({ signal, setProgress }) => ({ text: await geminiService.analyzeVideo(prompt, videoSource, setProgress, params, signal) }),
+      { fallbackError: 'An error occurred while analyzing the video. Please try again.' },
+    );
+    setJobId(started.id);
+  };
+
+  const handleCancel = () => {
+    if (job) jobManager.cancel(job.id);
   };
 
   const isSubmitDisabled = loading || !prompt.trim() || (analysisMode === 'upload' && !video) || (analysisMode === 'url' && !videoUrl.trim());
@@ -125,6 +132,7 @@ const VideoAnalyzer: React.FC = () => {
             className="w-full h-24 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-4 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
             disabled={loading}
           />
+          <GenerationSettings feature="videoAnalysis" model={resolveModel('videoAnalysis')} value={params} onChange={setParams} disabled={loading} />
           {loading && (
             <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5">
               <div className="bg-indigo-600 h-2.5 rounded-full" style={{ width: `${progress}%` }}></div>
@@ -138,18 +146,20 @@ const VideoAnalyzer: React.FC = () => {
             {loading ? <Spinner /> : <SparklesIcon />}
             {loading ? 'Analyzing...' : 'Analyze Video'}
           </button>
+          {loading && <CancelButton onClick={handleCancel} />}
         </form>
 
         <div className="h-full min-h-[300px] lg:h-auto bg-gray-50/80 dark:bg-black/50 rounded-lg p-4 overflow-y-auto border border-gray-200/50 dark:border-gray-700/50">
           <h3 className="text-lg font-semibold mb-2 text-indigo-600 dark:text-indigo-400">Analysis:</h3>
           {error && <p className="text-red-500 dark:text-red-400">{error}</p>}
+          {blocked && <SafetyNotice feedback={blocked} />}
           {result ? (
             <div
               className="prose prose-gray dark:prose-invert max-w-none"
               dangerouslySetInnerHTML={{ __html: geminiService.formatResponse(result) }}
             />
           ) : (
-            !loading && <p className="text-gray-500 dark:text-gray-500">Analysis results will appear here.</p>
+            !loading && !blocked && <p className="text-gray-500 dark:text-gray-500">Analysis results will appear here.</p>
           )}
         </div>
       </div>
@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { geminiService } from '../services/geminiService';
+import { describeError, toGeminiError } from '../services/errors';
 import { FilmIcon, SparklesIcon, PhotoIcon, SpeakerWaveIcon, SAMPLE_VIDEOS, ArrowDownTrayIcon } from '../constants';
 import Spinner from './Spinner';
+import CancelButton from './CancelButton';
 
 const loadingMessages = [
     "Remixing your assets with AI magic...",
@@ -42,6 +44,7 @@ const VideoEditor: React.FC = () => {
     const [loading, setLoading] = useState(false);
     const [loadingMessage, setLoadingMessage] = useState('');
     const [error, setError] = useState('');
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
         const checkKey = async () => {
@@ -59,6 +62,8 @@ const VideoEditor: React.FC = () => {
         checkKey();
     }, []);
 
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
     // Cleanup object URLs on unmount or when files change
     useEffect(() => {
         return () => {
@@ -129,6 +134,8 @@ const VideoEditor: React.FC = () => {
         setGeneratedVideoUrl(null);
         setOutputAudioUrl(null);
         setError('');
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
 
         const messageInterval = window.setInterval(() => {
             setLoadingMessage(prev => loadingMessages[(loadingMessages.indexOf(prev) + 1) % loadingMessages.length]);
@@ -139,13 +146,13 @@ const VideoEditor: React.FC = () => {
             let videoPromise;
 
             if (styleReference.type === 'file') {
-                const frames = await geminiService.getVideoFrames(styleReference.source as File, 3);
-                videoPromise = geminiService.generateVideo(instructions, "16:9", overlayImage, null, frames);
+                const frames = await geminiService.getVideoFrames(styleReference.source as File, 3, controller.signal);
+                videoPromise = geminiService.generateVideo(instructions, "16:9", overlayImage, null, frames, controller.signal);
             } else {
                 const selectedSample = SAMPLE_VIDEOS.find(v => v.url === styleReference.source);
                 const stylePrompt = `The style should be similar to a video of ${selectedSample?.name.toLowerCase()}.`;
                 const finalPrompt = `${instructions}. ${stylePrompt}`;
-                videoPromise = geminiService.generateVideo(finalPrompt, "16:9", overlayImage, null, null);
+                videoPromise = geminiService.generateVideo(finalPrompt, "16:9", overlayImage, null, null, controller.signal);
             }
             
             if (backgroundAudio) {
@@ -156,18 +163,30 @@ const VideoEditor: React.FC = () => {
             setGeneratedVideoUrl(newVideoUrl);
 
         } catch (err) {
-            let errorMessage = 'An error occurred during generation.';
-            if (err instanceof Error && err.message.includes('Requested entity was not found')) {
-                errorMessage = 'API Key error. Please re-select your API key and try again.';
+            if (controller.signal.aborted) return;
+            const { kind } = toGeminiError(err);
+            // Veo reports a key without access to it as a missing entity
+            if (kind === 'auth' || kind === 'notFound') {
                 setHasApiKey(false);
+                setError('API Key error. Please re-select your API key and try again.');
+            } else {
+                setError(describeError(err, 'An error occurred during generation.'));
             }
             console.error(err);
-            setError(errorMessage);
         } finally {
-            setLoading(false);
             clearInterval(messageInterval);
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setLoading(false);
+            }
         }
     };
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setLoading(false);
+    };
     
     const isSubmitDisabled = loading || isCheckingKey || !hasApiKey || !mainVideo || !instructions.trim();
 
@@ -276,6 +295,7 @@ const VideoEditor: React.FC = () => {
                             <Spinner size='lg' />
                             <p className="mt-4 text-gray-900 dark:text-white">{loadingMessage}</p>
                             <p className="text-sm text-gray-500 dark:text-gray-300">(Video generation can take several minutes)</p>
+                            <CancelButton onClick={handleCancel} className="mx-auto mt-4" />
                         </div>
                     )}
                      {!loading && generatedVideoUrl && (
@@ -1,11 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { geminiService } from '../services/geminiService';
+import { describeError } from '../services/errors';
+import { findJob, jobManager } from '../services/jobManager';
+import { BackgroundJob } from '../types';
 import { FilmIcon, PhotoIcon, ArrowDownTrayIcon, SpeakerWaveIcon, LEGACY_STYLES } from '../constants';
 import Spinner from './Spinner';
+import CancelButton from './CancelButton';
 import { TTS_VOICES } from '../constants';
 import { UserProfile } from '../App';
-import { db } from '../firebase';
-import { doc, increment, updateDoc } from 'firebase/firestore';
 
 type GenerationMode = 'text-to-video' | 'image-to-video';
 type VideoAspectRatio = "16:9" | "9:16";
@@ -25,12 +27,11 @@ const loadingMessages = [
 
 interface VideoGeneratorProps {
   user: UserProfile | null;
-  onUpdateCoins: (newBalance: number) => void;
 }
 
 const VIDEO_COST = 20;
 
-const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user, onUpdateCoins }) => {
+const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user }) => {
   const [mode, setMode] = useState<GenerationMode>('text-to-video');
   const [prompt, setPrompt] = useState('');
   const [image, setImage] = useState<File | null>(null);
@@ -38,9 +39,10 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user, onUpdateCoins })
   const [aspectRatio, setAspectRatio] = useState<VideoAspectRatio>("16:9");
   const [legacy, setLegacy] = useState<string>('Default');
   const [duration, setDuration] = useState(7);
+  const [jobs, setJobs] = useState<BackgroundJob[]>(() => jobManager.getJobs());
+  const [jobId, setJobId] = useState<string>();
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [loadingMessage, setLoadingMessage] = useState('');
+  const [loadingMessage, setLoadingMessage] = useState(loadingMessages[0]);
   const [error, setError] = useState('');
 
   // API Key state
@@ -54,9 +56,18 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user, onUpdateCoins })
   const [ttsPrompt, setTtsPrompt] = useState('');
   const [ttsVoice, setTtsVoice] = useState('Kore');
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const job = findJob(jobs, 'video', jobId);
+  const loading = job?.status === 'running';
+  // Veo reports a key without access to it as a missing entity
+  const isKeyError = job?.status === 'failed' && (job.errorKind === 'auth' || job.errorKind === 'notFound');
+  const video = job?.result?.video;
 
   const isPremium = user?.isPremium ?? false;
-  const hasEnoughCoins = user ? (isPremium || (user.coins ?? 0) >= VIDEO_COST) : false;
+  // Coins already promised to running jobs and chat tools aren't available
+  const availableCoins = user ? (user.coins ?? 0) - jobManager.getReservedCoins(user.uid) : 0;
+  const hasEnoughCoins = user ? (isPremium || availableCoins >= VIDEO_COST) : false;
 
   const formatDuration = (seconds: number) => {
     if (seconds < 60) {
@@ -83,15 +94,45 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user, onUpdateCoins })
     checkKey();
   }, []);
 
+  // The video is a background job, so leaving the page only stops the audio
+  useEffect(() => jobManager.subscribe(setJobs), []);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (isKeyError && jobId) setHasApiKey(false);
+  }, [isKeyError, jobId]);
+
+  useEffect(() => {
+    if (!loading) return;
+    const messageInterval = window.setInterval(() => {
+        setLoadingMessage(prev => {
+            const currentIndex = loadingMessages.indexOf(prev);
+            const nextIndex = (currentIndex + 1) % loadingMessages.length;
+            return loadingMessages[nextIndex];
+        });
+    }, 5000);
+    return () => clearInterval(messageInterval);
+  }, [loading]);
+
+  useEffect(() => {
+    if (!video) {
+      setVideoUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(video);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [video]);
+
   useEffect(() => {
     // Cleanup object URLs on component unmount
     return () => {
       if (imagePreview) URL.revokeObjectURL(imagePreview);
-      if (videoUrl) URL.revokeObjectURL(videoUrl);
       if (audioPreview) URL.revokeObjectURL(audioPreview);
       if (audioUrl) URL.revokeObjectURL(audioUrl);
     };
-  }, [imagePreview, videoUrl, audioPreview, audioUrl]);
+  }, [imagePreview, audioPreview, audioUrl]);
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -131,73 +172,53 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user, onUpdateCoins })
     if (isGenerateDisabled || !user) return;
 
     if (!hasEnoughCoins) {
-        setError(`You need at least ${VIDEO_COST} coins to generate videos. You have ${user.coins ?? 0}.`);
+        setError(`You need at least ${VIDEO_COST} coins to generate videos. You have ${availableCoins} not already set aside for running jobs.`);
         return;
     }
 
-    setLoading(true);
-    setVideoUrl(null);
     setAudioUrl(null);
     setError('');
-
-    let messageInterval: number;
-    
-    // Set up loading messages
     setLoadingMessage(loadingMessages[0]);
-    messageInterval = window.setInterval(() => {
-        setLoadingMessage(prev => {
-            const currentIndex = loadingMessages.indexOf(prev);
-            const nextIndex = (currentIndex + 1) % loadingMessages.length;
-            return loadingMessages[nextIndex];
-        });
-    }, 5000);
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     const finalPrompt = legacy !== 'Default' ? `${prompt}, style: ${legacy}` : prompt;
-
-    // Prepare audio and video generation promises
-    const videoPromise = geminiService.generateVideo(finalPrompt, aspectRatio, image, duration);
-    const audioPromise = (async () => {
-      if (audioMode === 'upload' && audioFile) {
-        return URL.createObjectURL(audioFile);
-      }
-      if (audioMode === 'tts' && ttsPrompt.trim()) {
-        return geminiService.generateSpeechAndGetUrl(ttsPrompt, ttsVoice);
-      }
-      return null;
-    })();
+    const started = jobManager.startVideo(
+      { prompt: finalPrompt, aspectRatio, image, duration },
+      {
+        // Coins are taken once the video is ready; cancelled videos are free
+        cost: isPremium ? 0 : VIDEO_COST,
+        user,
+        fallbackError: 'An error occurred during generation.',
+      },
+    );
+    setJobId(started.id);
 
     try {
-      const [generatedVideoUrl, generatedAudioUrl] = await Promise.all([videoPromise, audioPromise]);
-      setVideoUrl(generatedVideoUrl);
-      if (generatedAudioUrl) {
-        setAudioUrl(generatedAudioUrl);
-      }
-
-      if (!isPremium) {
-        const newBalance = (user.coins ?? 0) - VIDEO_COST;
-        if (!user.isGuest) {
-          const userRef = doc(db, 'users', user.uid);
-          await updateDoc(userRef, {
-              coins: increment(-VIDEO_COST)
-          });
-        }
-        onUpdateCoins(newBalance);
+      if (audioMode === 'upload' && audioFile) {
+        setAudioUrl(URL.createObjectURL(audioFile));
+      } else if (audioMode === 'tts' && ttsPrompt.trim()) {
+        const generatedAudioUrl = await geminiService.generateSpeechAndGetUrl(ttsPrompt, ttsVoice, controller.signal);
+        if (!controller.signal.aborted) setAudioUrl(generatedAudioUrl);
       }
-
     } catch (err) {
-        let errorMessage = 'An error occurred during generation.';
-        if (err instanceof Error && err.message.includes('Requested entity was not found')) {
-            errorMessage = 'API Key error. Please re-select your API key and try again.';
-            setHasApiKey(false);
-        }
+        if (controller.signal.aborted) return;
         console.error(err);
-        setError(errorMessage);
+        setError(describeError(err, 'An error occurred while generating the audio.'));
     } finally {
-        setLoading(false);
-        clearInterval(messageInterval);
+        if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+        }
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    if (job) jobManager.cancel(job.id);
+  };
+
   return (
     <div className="flex flex-col h-full bg-white/60 dark:bg-gray-900/60 backdrop-blur-lg rounded-lg border border-gray-200/50 dark:border-gray-700/50 p-6 space-y-6">
       <div className="text-center">
@@ -235,6 +256,9 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user, onUpdateCoins })
                 <Spinner size='lg' />
                 <p className="mt-4 text-gray-900 dark:text-white">{loadingMessage}</p>
                 <p className="text-sm text-gray-500 dark:text-gray-300">(Video generation can take several minutes)</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">You can use other features meanwhile; the video will be in the jobs tray at the top.</p>
+                <CancelButton onClick={handleCancel} className="mx-auto mt-4" />
+                {!isPremium && <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">You won't be charged for a cancelled video.</p>}
             </div>
         )}
         {!loading && videoUrl && (
@@ -269,7 +293,11 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ user, onUpdateCoins })
           </div>
         )}
         {!loading && !videoUrl && <FilmIcon className="w-24 h-24 text-gray-400 dark:text-gray-600" />}
-        {error && <p className="text-red-500 dark:text-red-400 mt-4 text-center">{error}</p>}
+        {(error || job?.error) && (
+          <p className="text-red-500 dark:text-red-400 mt-4 text-center">
+            {error || (isKeyError ? 'API Key error. Please re-select your API key and try again.' : job?.error)}
+          </p>
+        )}
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-4">
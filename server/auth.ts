@@ -0,0 +1,26 @@
+import type { IncomingMessage } from 'node:http';
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth, DecodedIdToken } from 'firebase-admin/auth';
+
+// Verifying ID tokens only needs the project ID; no service account is required.
+const app = initializeApp({ projectId: process.env.FIREBASE_PROJECT_ID });
+
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+export async function verifyCaller(req: IncomingMessage): Promise<DecodedIdToken> {
+  const header = req.headers.authorization ?? '';
+  const match = header.match(/^Bearer (.+)$/);
+  if (!match) {
+    throw new HttpError(401, 'Missing Firebase ID token.');
+  }
+  try {
+    return await getAuth(app).verifyIdToken(match[1]);
+  } catch (err) {
+    console.warn('Rejected Firebase ID token:', err instanceof Error ? err.message : err);
+    throw new HttpError(401, 'Invalid or expired Firebase ID token.');
+  }
+}
@@ -0,0 +1,194 @@
+import http from 'node:http';
+import { Readable, pipeline } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { ApiError, GenerateVideosOperation, GoogleGenAI } from '@google/genai';
+import { HttpError, verifyCaller } from './auth';
+
+// Holds the Gemini API key on the server so it never ships in the client bundle.
+// Every route mirrors a GenAiProvider method; see services/providers/proxyProvider.ts.
+
+const PORT = Number(process.env.PROXY_PORT ?? 8787);
+const API_KEY = process.env.GEMINI_API_KEY;
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGINS ?? 'http://localhost:3000')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+// Only Gemini file downloads are proxied, otherwise the key could be sent anywhere.
+const VIDEO_DOWNLOAD_HOST = 'generativelanguage.googleapis.com';
+const LIVE_TOKEN_TTL_MS = 30 * 60 * 1000;
+const LIVE_SESSION_START_WINDOW_MS = 60 * 1000;
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY must be set to run the proxy.');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+// Ephemeral tokens are only available on v1alpha.
+const tokenAi = new GoogleGenAI({ apiKey: API_KEY, httpOptions: { apiVersion: 'v1alpha' } });
+
+// `signal` is aborted when the client goes away before the response is complete.
+type Handler = (body: any, res: http.ServerResponse, url: URL, signal: AbortSignal) => Promise<unknown>;
+
+const routes: Record<string, Handler> = {
+  'POST /api/models/generateContent': body => ai.models.generateContent(body),
+  'POST /api/models/generateContentStream': (body, res, _, signal) => streamContent(body, res, signal),
+  'POST /api/models/countTokens': body => ai.models.countTokens(body),
+  'POST /api/models/embedContent': body => ai.models.embedContent(body),
+  'POST /api/models/generateImages': body => ai.models.generateImages(body),
+  'POST /api/models/generateVideos': body => ai.models.generateVideos(body),
+  'POST /api/operations/getVideosOperation': body =>
+    ai.operations.getVideosOperation({ operation: Object.assign(new GenerateVideosOperation(), body.operation) }),
+  'GET /api/videos/download': (_, res, url, signal) => streamVideo(url.searchParams.get('uri'), res, signal),
+  'POST /api/live/token': () => createLiveToken(),
+};
+
+// Newline-delimited JSON, one GenerateContentResponse chunk per line. Stops
+// generating as soon as the client disconnects, so a stopped reply uses no more quota.
+async function streamContent(body: any, res: http.ServerResponse, signal: AbortSignal) {
+  const stream = await ai.models.generateContentStream({ ...body, config: { ...body.config, abortSignal: signal } });
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+  for await (const chunk of stream) {
+    if (signal.aborted) return;
+    res.write(`${JSON.stringify(chunk)}\n`);
+  }
+  res.end();
+}
+
+async function streamVideo(uri: string | null, res: http.ServerResponse, signal: AbortSignal) {
+  let target: URL;
+  try {
+    target = new URL(uri ?? '');
+  } catch {
+    throw new HttpError(400, 'A valid video URI is required.');
+  }
+  if (target.protocol !== 'https:' || target.hostname !== VIDEO_DOWNLOAD_HOST) {
+    throw new HttpError(400, 'Only Gemini video URIs can be downloaded.');
+  }
+
+  const upstream = await fetch(target, { headers: { 'x-goog-api-key': API_KEY! }, signal });
+  if (!upstream.ok || !upstream.body) {
+    throw new HttpError(upstream.status || 502, `Video download failed (${upstream.status}).`);
+  }
+  res.writeHead(200, {
+    'Content-Type': upstream.headers.get('content-type') ?? 'video/mp4',
+    ...(upstream.headers.has('content-length') && { 'Content-Length': upstream.headers.get('content-length')! }),
+  });
+  // fetch's body is Node's web stream; the DOM lib types it as the browser's
+  pipeline(Readable.fromWeb(upstream.body as NodeReadableStream<Uint8Array>), res, err => {
+    if (err && !signal.aborted) console.error('Video download failed mid-stream:', err);
+  });
+}
+
+// The browser connects to the Live API directly with a single-use token instead
+// of relaying audio frames through this server.
+async function createLiveToken() {
+  const now = Date.now();
+  const token = await tokenAi.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: new Date(now + LIVE_TOKEN_TTL_MS).toISOString(),
+      newSessionExpireTime: new Date(now + LIVE_SESSION_START_WINDOW_MS).toISOString(),
+      httpOptions: { apiVersion: 'v1alpha' },
+    },
+  });
+  return { token: token.name };
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (!chunks.length) return resolve({});
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body must be valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function applyCors(req: http.IncomingMessage, res: http.ServerResponse) {
+  const origin = req.headers.origin;
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+    res.setHeader('Vary', 'Origin');
+  }
+}
+
+// Gemini's RetryInfo ("retryDelay": "27s") as a Retry-After header, in seconds.
+function retryAfterHeader(message: string): Record<string, string> {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? { 'Retry-After': String(Math.ceil(Number(match[1]))) } : {};
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string) {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json', ...retryAfterHeader(message) });
+  res.end(JSON.stringify({ error: { status, message } }));
+}
+
+const server = http.createServer(async (req, res) => {
+  applyCors(req, res);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  const handler = routes[`${req.method} ${url.pathname}`];
+  if (!handler) {
+    sendError(res, 404, 'Not found.');
+    return;
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const caller = await verifyCaller(req);
+    const body = req.method === 'POST' ? await readJsonBody(req) : {};
+    console.log(`${req.method} ${url.pathname} uid=${caller.uid}`);
+    const result = await handler(body, res, url, controller.signal);
+    if (!res.headersSent) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result));
+    }
+  } catch (err) {
+    if (controller.signal.aborted) {
+      res.destroy();
+      return;
+    }
+    if (err instanceof HttpError || err instanceof ApiError) {
+      sendError(res, err.status, err.message);
+    } else {
+      console.error(`${req.method} ${url.pathname} failed:`, err);
+      sendError(res, 500, 'The proxy could not complete the request.');
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`NexaNeuron API proxy listening on http://localhost:${PORT}`);
+});
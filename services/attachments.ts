@@ -0,0 +1,76 @@
+import { Part } from '@google/genai';
+import { Attachment, AttachmentKind, ChatMessage } from '../types';
+import { dataUrlToGenerativePart, decode, fileToDataUrl } from './utils';
+
+export const MAX_ATTACHMENTS = 10;
+// Inline data in a single Gemini request is capped at 20 MB, and base64 adds a third.
+export const MAX_ATTACHMENTS_BYTES = 14 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'xml', 'yaml', 'yml', 'toml', 'ini', 'log', 'html', 'css', 'scss',
+  'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cpp', 'hpp', 'cs',
+  'php', 'sh', 'bash', 'sql', 'r', 'lua', 'dart', 'vue', 'svelte',
+]);
+
+export const ATTACHMENT_ACCEPT = ['image/*', 'application/pdf', 'text/*', ...Array.from(TEXT_EXTENSIONS, ext => `.${ext}`)].join(',');
+
+export function getAttachmentKind(file: File): AttachmentKind | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.has(extension)) return 'text';
+  return null;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Reads the files that can be added next to `current`, and explains the ones that can't.
+export async function readAttachments(files: File[], current: Attachment[]): Promise<{ attachments: Attachment[]; errors: string[] }> {
+  const attachments: Attachment[] = [];
+  const errors: string[] = [];
+  let totalBytes = current.reduce((sum, attachment) => sum + attachment.size, 0);
+
+  for (const file of files) {
+    const kind = getAttachmentKind(file);
+    if (!kind) {
+      errors.push(`${file.name}: only images, PDFs and text or code files can be attached.`);
+    } else if (current.length + attachments.length >= MAX_ATTACHMENTS) {
+      errors.push(`${file.name}: a message can have at most ${MAX_ATTACHMENTS} attachments.`);
+    } else if (totalBytes + file.size > MAX_ATTACHMENTS_BYTES) {
+      errors.push(`${file.name} (${formatBytes(file.size)}): attachments are limited to ${formatBytes(MAX_ATTACHMENTS_BYTES)} per message.`);
+    } else {
+      totalBytes += file.size;
+      attachments.push({
+        id: crypto.randomUUID(),
+        name: file.name || `pasted-${kind}`,
+        // Code files often have no MIME type, or one Gemini doesn't accept
+        mimeType: kind === 'text' ? 'text/plain' : file.type || 'application/pdf',
+        kind,
+        size: file.size,
+        dataUrl: await fileToDataUrl(file),
+      });
+    }
+  }
+  return { attachments, errors };
+}
+
+// Images and PDFs go inline; text files are sent as their contents so any
+// extension works, labelled with the file name.
+export function attachmentToPart(attachment: Attachment): Part {
+  if (attachment.kind !== 'text') return dataUrlToGenerativePart(attachment.dataUrl);
+  const text = new TextDecoder().decode(decode(attachment.dataUrl.split(',')[1] ?? ''));
+  return { text: `Contents of the attached file "${attachment.name}":\n\n\`\`\`\n${text}\n\`\`\`` };
+}
+
+// A message's attachments, including the single image of messages saved
+// before attachments existed.
+export function getMessageAttachments(message: ChatMessage): Attachment[] {
+  const attachments = message.attachments ?? [];
+  if (!message.imagePreview?.startsWith('data:')) return attachments;
+  const mimeType = message.imagePreview.slice('data:'.length, message.imagePreview.indexOf(';'));
+  return [{ id: `${message.id}-image`, name: 'image', mimeType, kind: 'image', size: 0, dataUrl: message.imagePreview }, ...attachments];
+}
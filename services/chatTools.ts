@@ -0,0 +1,308 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { geminiService } from './geminiService';
+import { decode, fileToDataUrl, pcmToWavBlob } from './utils';
+import { AspectRatio } from '../types';
+import { IMAGE_COST, TTS_VOICES } from '../constants';
+import { UserProfile } from '../App';
+import { createMemory, memoryStore } from './memoryStore';
+
+export interface ToolOutput {
+  // What the model gets back as the function response
+  response: Record<string, unknown>;
+  // Media to show the user; data URLs so they survive a reload
+  images?: string[];
+  audio?: string;
+}
+
+export interface ToolContext {
+  user: UserProfile;
+  // Aborts when the user stops the reply
+  signal?: AbortSignal;
+}
+
+export interface ChatTool {
+  declaration: FunctionDeclaration;
+  label: string;
+  // Coins spent per successful call; the user confirms before it runs
+  cost?: number;
+  // Free tools that still need the user's OK, with the question and button label
+  approval?: { prompt: (args: any) => string; action: string };
+  run: (args: any, context: ToolContext) => Promise<ToolOutput>;
+}
+
+// --- CALCULATOR ---
+
+const MATH_FUNCTIONS: Record<string, (...values: number[]) => number> = {
+  sqrt: Math.sqrt, cbrt: Math.cbrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  log: Math.log10, ln: Math.log, exp: Math.exp, min: Math.min, max: Math.max, pow: Math.pow,
+};
+
+const MATH_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+// A small recursive-descent parser, so expressions from the model are never eval'd.
+// Supports + - * / % ^, parentheses, MATH_FUNCTIONS and MATH_CONSTANTS.
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-z_]+|\*\*|[-+*/%^(),]/gi) ?? [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error(`Unsupported characters in "${expression}".`);
+  }
+  let position = 0;
+  const peek = () => tokens[position];
+  const take = (expected?: string) => {
+    const token = tokens[position++];
+    if (expected && token !== expected) throw new Error(`Expected "${expected}" in "${expression}".`);
+    return token;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      value = take() === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+  const parseProduct = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = take();
+      const right = parsePower();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  const parsePower = (): number => {
+    const base = parseUnary();
+    if (peek() === '^' || peek() === '**') {
+      take();
+      return base ** parsePower();
+    }
+    return base;
+  };
+  const parseUnary = (): number => {
+    if (peek() === '-') { take(); return -parseUnary(); }
+    if (peek() === '+') { take(); return parseUnary(); }
+    return parsePrimary();
+  };
+  const parsePrimary = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error(`"${expression}" ends unexpectedly.`);
+    if (token === '(') {
+      const value = parseSum();
+      take(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    const name = token.toLowerCase();
+    if (name in MATH_FUNCTIONS) {
+      take('(');
+      const args = [parseSum()];
+      while (peek() === ',') { take(); args.push(parseSum()); }
+      take(')');
+      return MATH_FUNCTIONS[name](...args);
+    }
+    if (name in MATH_CONSTANTS) return MATH_CONSTANTS[name];
+    throw new Error(`Unknown name "${token}" in "${expression}".`);
+  };
+
+  const result = parseSum();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in "${expression}".`);
+  return result;
+}
+
+// --- UNIT CONVERSION ---
+
+// Factors to each category's base unit (metre, kilogram, litre, m/s, second, byte, m²).
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  length: { mm: 0.001, cm: 0.01, m: 1, km: 1000, in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344, nmi: 1852 },
+  mass: { mg: 1e-6, g: 0.001, kg: 1, t: 1000, oz: 0.028349523125, lb: 0.45359237, st: 6.35029318 },
+  volume: { ml: 0.001, l: 1, m3: 1000, tsp: 0.00492892159375, tbsp: 0.01478676478125, floz: 0.0295735295625, cup: 0.2365882365, pt: 0.473176473, qt: 0.946352946, gal: 3.785411784 },
+  speed: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, kn: 1852 / 3600, 'ft/s': 0.3048 },
+  time: { ms: 0.001, s: 1, min: 60, h: 3600, d: 86400, wk: 604800 },
+  data: { b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12, kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4 },
+  area: { mm2: 1e-6, cm2: 1e-4, m2: 1, km2: 1e6, ha: 1e4, acre: 4046.8564224, ft2: 0.09290304, in2: 0.00064516, mi2: 2589988.110336 },
+};
+
+const TEMPERATURE_UNITS = ['c', 'f', 'k'];
+
+const toCelsius = (value: number, unit: string) =>
+  unit === 'f' ? (value - 32) * 5 / 9 : unit === 'k' ? value - 273.15 : value;
+const fromCelsius = (value: number, unit: string) =>
+  unit === 'f' ? value * 9 / 5 + 32 : unit === 'k' ? value + 273.15 : value;
+
+export function convertUnits(value: number, from: string, to: string): number {
+  const source = from.trim().toLowerCase().replace(/^°/, '');
+  const target = to.trim().toLowerCase().replace(/^°/, '');
+  if (TEMPERATURE_UNITS.includes(source) && TEMPERATURE_UNITS.includes(target)) {
+    return fromCelsius(toCelsius(value, source), target);
+  }
+  const category = Object.values(UNIT_FACTORS).find(factors => source in factors && target in factors);
+  if (!category) throw new Error(`Can't convert from "${from}" to "${to}".`);
+  return value * category[source] / category[target];
+}
+
+const ALL_UNITS = [...Object.values(UNIT_FACTORS).flatMap(Object.keys), 'C', 'F', 'K'];
+
+// --- REGISTRY ---
+
+export const CHAT_TOOLS: Record<string, ChatTool> = {
+  calculate: {
+    label: 'Calculator',
+    declaration: {
+      name: 'calculate',
+      description: 'Evaluates an arithmetic expression exactly. Use it for any non-trivial arithmetic instead of computing in your head.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          expression: { type: Type.STRING, description: `Expression using + - * / % ^, parentheses, ${Object.keys(MATH_FUNCTIONS).join(', ')}, pi and e.` },
+        },
+        required: ['expression'],
+      },
+    },
+    run: async ({ expression }) => ({ response: { result: evaluateExpression(expression) } }),
+  },
+  get_current_datetime: {
+    label: 'Date & time',
+    declaration: {
+      name: 'get_current_datetime',
+      description: "Returns the current date and time, in the user's time zone unless another IANA time zone is given.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          timeZone: { type: Type.STRING, description: 'IANA time zone such as "Europe/Paris". Optional.' },
+        },
+      },
+    },
+    run: async ({ timeZone }) => {
+      const now = new Date();
+      const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+      return {
+        response: {
+          iso: now.toISOString(),
+          local: now.toLocaleString('en-US', { timeZone: zone, dateStyle: 'full', timeStyle: 'long' }),
+          timeZone: zone,
+        },
+      };
+    },
+  },
+  convert_units: {
+    label: 'Unit converter',
+    declaration: {
+      name: 'convert_units',
+      description: 'Converts a value between units of length, mass, volume, speed, time, data size, area or temperature.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          value: { type: Type.NUMBER },
+          from: { type: Type.STRING, description: `Unit to convert from. One of: ${ALL_UNITS.join(', ')}.` },
+          to: { type: Type.STRING, description: 'Unit to convert to, from the same list.' },
+        },
+        required: ['value', 'from', 'to'],
+      },
+    },
+    run: async ({ value, from, to }) => ({ response: { result: convertUnits(Number(value), from, to), unit: to } }),
+  },
+  generate_image: {
+    label: 'Image generation',
+    cost: IMAGE_COST,
+    declaration: {
+      name: 'generate_image',
+      description: 'Generates an image with Imagen and shows it to the user. Costs the user coins, so only call it when they ask for an image.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          prompt: { type: Type.STRING, description: 'Detailed description of the image.' },
+          aspectRatio: { type: Type.STRING, enum: ['1:1', '16:9', '9:16', '4:3', '3:4'] },
+        },
+        required: ['prompt'],
+      },
+    },
+    run: async ({ prompt, aspectRatio }, { signal }) => {
+      const images = await geminiService.generateImage(prompt, (aspectRatio ?? '1:1') as AspectRatio, 1, signal);
+      return { response: { status: 'The image was generated and is shown to the user.' }, images };
+    },
+  },
+  search_web: {
+    label: 'Grounded search',
+    declaration: {
+      name: 'search_web',
+      description: 'Answers a question using Google Search. Use it for recent events or facts you are unsure about.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          query: { type: Type.STRING },
+        },
+        required: ['query'],
+      },
+    },
+    run: async ({ query }, { signal }) => {
+      const { text, sources } = await geminiService.groundedSearch(query, false, null, signal);
+      return { response: { answer: text, sources } };
+    },
+  },
+  text_to_speech: {
+    label: 'Text to speech',
+    declaration: {
+      name: 'text_to_speech',
+      description: 'Reads text aloud and gives the user an audio player. Only call it when the user asks to hear something.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          voice: { type: Type.STRING, enum: TTS_VOICES },
+        },
+        required: ['text'],
+      },
+    },
+    run: async ({ text, voice }, { signal }) => {
+      const base64Audio = await geminiService.generateSpeech(text, voice ?? 'Zephyr', signal);
+      const audio = await fileToDataUrl(pcmToWavBlob(decode(base64Audio), 24000, 1));
+      return { response: { status: 'The audio is shown to the user as a player.' }, audio };
+    },
+  },
+  analyze_video: {
+    label: 'Video analysis',
+    declaration: {
+      name: 'analyze_video',
+      description: 'Watches a video from a public URL and answers a question about it.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          videoUrl: { type: Type.STRING, description: 'Direct link to a video file that allows cross-origin access.' },
+          question: { type: Type.STRING },
+        },
+        required: ['videoUrl', 'question'],
+      },
+    },
+    run: async ({ videoUrl, question }, { signal }) => ({
+      response: { answer: await geminiService.analyzeVideo(question, videoUrl, () => {}, {}, signal) },
+    }),
+  },
+  remember: {
+    label: 'Memory',
+    approval: { prompt: ({ fact }) => `Remember "${fact}" in future chats?`, action: 'Remember' },
+    declaration: {
+      name: 'remember',
+      description: 'Proposes a lasting fact about the user to remember in future conversations, such as a preference, their role or their time zone. The user approves it first. Only use it for facts that will still matter later, never for secrets or sensitive details.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          fact: { type: Type.STRING, description: 'The fact as a short third-person statement, e.g. "Prefers TypeScript".' },
+        },
+        required: ['fact'],
+      },
+    },
+    run: async ({ fact }, { user }) => {
+      await memoryStore.save(user, createMemory(fact));
+      return { response: { status: 'Saved. It will be known in future conversations.' } };
+    },
+  },
+};
+
+export const MEMORY_TOOL_NAME = 'remember';
+
+// The memory tool is only offered to users who turned memory on.
+export const getChatToolDeclarations = ({ memory }: { memory: boolean }) =>
+  Object.values(CHAT_TOOLS)
+    .filter(tool => memory || tool.declaration.name !== MEMORY_TOOL_NAME)
+    .map(tool => tool.declaration);
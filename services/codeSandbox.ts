@@ -0,0 +1,125 @@
+export type PreviewLanguage = 'html' | 'css' | 'js';
+
+export interface CodeFile {
+  language: PreviewLanguage;
+  code: string;
+}
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  message: string;
+}
+
+// Messages from the preview are tagged so stray postMessages from other frames are ignored.
+export const SANDBOX_MESSAGE_SOURCE = 'nexaneuron-sandbox';
+
+// The iframe gets no same-origin access, so the page can't reach the app's
+// storage, cookies or Firebase session. Modals only allow alert/confirm/prompt.
+export const SANDBOX_ATTRIBUTES = 'allow-scripts allow-modals';
+
+// Inline code and CDN libraries may run, but the page can't make requests
+// of its own, submit forms or navigate away.
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline' 'unsafe-eval' https:",
+  "style-src 'unsafe-inline' https:",
+  'img-src data: blob: https:',
+  'font-src data: https:',
+  'media-src data: blob: https:',
+  "connect-src 'none'",
+  "form-action 'none'",
+].join('; ');
+
+const LANGUAGE_ALIASES: Record<string, PreviewLanguage> = {
+  html: 'html', htm: 'html', xml: 'html', svg: 'html',
+  css: 'css',
+  js: 'js', javascript: 'js',
+};
+
+export const isPreviewLanguage = (language: string) => language.toLowerCase() in LANGUAGE_ALIASES;
+
+// Every closed HTML, CSS and JS block of an answer, in order.
+export function extractCodeFiles(text: string): CodeFile[] {
+  const files: CodeFile[] = [];
+  for (const match of text.matchAll(/```([\w-]*)\n([\s\S]*?)\n```/g)) {
+    const language = LANGUAGE_ALIASES[match[1].toLowerCase()];
+    if (language) files.push({ language, code: match[2] });
+  }
+  return files;
+}
+
+// Runs first in the page and forwards console output and uncaught errors to the app.
+const BRIDGE_SCRIPT = `(() => {
+  const send = (level, args) => {
+    const message = args.map(arg => {
+      if (typeof arg === 'string') return arg;
+      if (arg instanceof Error) return arg.stack || String(arg);
+      try { return JSON.stringify(arg, null, 2) ?? String(arg); } catch { return String(arg); }
+    }).join(' ');
+    parent.postMessage({ source: '${SANDBOX_MESSAGE_SOURCE}', level, message }, '*');
+  };
+  for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+    const original = console[level].bind(console);
+    console[level] = (...args) => { send(level, args); original(...args); };
+  }
+  addEventListener('error', event => {
+    const where = event.lineno ? ' (line ' + event.lineno + ':' + event.colno + ')' : '';
+    send('error', [(event.error && event.error.stack) || event.message + where]);
+  });
+  addEventListener('unhandledrejection', event => send('error', ['Unhandled promise rejection:', event.reason]));
+})();`;
+
+// Keeps code from closing the tag it is inlined into.
+const escapeClosingTag = (code: string, tag: string) => code.replace(new RegExp(`</${tag}`, 'gi'), `<\\/${tag}`);
+
+const insertBefore = (html: string, pattern: RegExp, content: string, fallback: (html: string) => string) => {
+  const match = html.match(pattern);
+  return match?.index !== undefined
+    ? html.slice(0, match.index) + content + html.slice(match.index)
+    : fallback(html);
+};
+
+const insertAfter = (html: string, pattern: RegExp, content: string) => {
+  const match = html.match(pattern);
+  return match?.index !== undefined
+    ? html.slice(0, match.index + match[0].length) + content + html.slice(match.index + match[0].length)
+    : content + html;
+};
+
+// Combines the files into one page: the first HTML file that is a full
+// document is the base (otherwise the markup is wrapped in one), then CSS goes
+// at the end of <head> and JS at the end of <body>.
+export function buildPreviewDocument(files: CodeFile[]): string {
+  const markup = files.filter(file => file.language === 'html').map(file => file.code);
+  const fullDocument = markup.find(code => /<html[\s>]/i.test(code));
+  const fragments = markup.filter(code => code !== fullDocument).join('\n');
+  const styles = files.filter(file => file.language === 'css').map(file => `<style>\n${escapeClosingTag(file.code, 'style')}\n</style>`).join('\n');
+  const scripts = files.filter(file => file.language === 'js').map(file => `<script>\n${escapeClosingTag(file.code, 'script')}\n</script>`).join('\n');
+
+  let html = fullDocument ?? `<!DOCTYPE html>
+<html>
+<head>
+<title>Preview</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; padding: 1rem; color: #212529; }
+</style>
+</head>
+<body>
+</body>
+</html>`;
+
+  const head = `<meta http-equiv="Content-Security-Policy" content="${CONTENT_SECURITY_POLICY}">\n<script>${BRIDGE_SCRIPT}</script>\n`;
+  html = /<head[\s>]/i.test(html) ? insertAfter(html, /<head[^>]*>/i, head) : insertAfter(html, /<html[^>]*>/i, `<head>${head}</head>`);
+  if (styles) html = insertBefore(html, /<\/head>/i, `${styles}\n`, h => styles + h);
+  const body = [fragments, scripts].filter(Boolean).join('\n');
+  if (body) html = insertBefore(html, /<\/body>/i, `${body}\n`, h => h + body);
+  return html;
+}
+
+// What gets sent back to the chat so the model can fix its code.
+export function formatErrorReport(entries: ConsoleEntry[]): string {
+  const errors = entries.filter(entry => entry.level === 'error').map(entry => entry.message);
+  return `Running your code in the preview produced ${errors.length === 1 ? 'this error' : 'these errors'}:\n\n\`\`\`\n${errors.join('\n\n')}\n\`\`\`\n\nPlease fix the code.`;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseConversation, toHtml } from './conversationExport';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+const exportWith = (message: Record<string, unknown>) => JSON.stringify({
+  format: 'nexaneuron.conversation',
+  version: 1,
+  conversation: { title: 'Test', messages: [{ id: 'm1', parentId: null, role: 'user', parts: [{ text: 'hi' }], ...message }], leafId: 'm1' },
+});
+
+describe('parseConversation', () => {
+  it('keeps well-formed attachments, tool calls and usage', () => {
+    const [message] = parseConversation(exportWith({
+      attachments: [{ id: 'a', name: 'cat.png', mimeType: 'image/png', kind: 'image', size: 8, dataUrl: PNG }],
+      toolCalls: [{ id: 't', name: 'generate_image', args: {}, status: 'done', images: [PNG] }],
+      usage: { model: 'gemini-2.5-flash', promptTokens: 1, candidatesTokens: 2, thinkingTokens: 0, totalTokens: 3 },
+    })).messages;
+    expect(message.attachments).toHaveLength(1);
+    expect(message.toolCalls?.[0].images).toEqual([PNG]);
+    expect(message.usage?.totalTokens).toBe(3);
+  });
+
+  it('drops attachments, images and usage that are not what they claim', () => {
+    const [message] = parseConversation(exportWith({
+      attachments: [
+        { id: 'a', name: 'x', mimeType: 'image/png', kind: 'image', size: 1, dataUrl: 'x" onerror="alert(1)' },
+        { id: 'b', name: 'x', mimeType: 'image/png', kind: 'image', size: 1, dataUrl: 'data:text/html;base64,PHNjcmlwdD4=' },
+        { id: 'c', name: 'x', mimeType: 'text/plain', kind: 'script', size: 1, dataUrl: PNG },
+        'not an attachment',
+      ],
+      toolCalls: [{ id: 't', name: 'generate_image', args: {}, status: 'done', images: ['javascript:alert(1)', PNG] }, { id: 1 }],
+      usage: { model: 'x', promptTokens: '1', candidatesTokens: 2, thinkingTokens: 0, totalTokens: 3 },
+      imagePreview: 'https://evil.example/track.png',
+      evil: true,
+    })).messages;
+    expect(message.attachments).toEqual([]);
+    expect(message.toolCalls).toHaveLength(1);
+    expect(message.toolCalls?.[0].images).toEqual([PNG]);
+    expect(message.usage).toBeUndefined();
+    expect(message.imagePreview).toBeUndefined();
+    expect(message).not.toHaveProperty('evil');
+  });
+});
+
+describe('toHtml', () => {
+  it('escapes attribute values', () => {
+    const conversation = parseConversation(exportWith({}));
+    conversation.messages[0].attachments = [{ id: 'a', name: '"><script>', mimeType: 'image/png', kind: 'image', size: 1, dataUrl: 'x"><script>alert(1)</script>' }];
+    conversation.messages[0].toolCalls = [{ id: 't', name: 'generate_image', args: {}, status: 'done', images: ['y" onerror="alert(1)'] }];
+    const html = toHtml(conversation);
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('" onerror=');
+  });
+});
@@ -0,0 +1,257 @@
+import { Attachment, AttachmentKind, ChatMessage, Citation, Conversation, SafetyFeedback, TokenUsage, ToolCallRecord, ToolCallStatus } from '../types';
+import { geminiService } from './geminiService';
+import { formatBytes, getMessageAttachments } from './attachments';
+import { getLatestLeaf, getPath, normalizeTree } from './messageTree';
+
+export type ExportFormat = 'markdown' | 'html' | 'json' | 'pdf';
+
+const EXPORT_FORMAT_ID = 'nexaneuron.conversation';
+const EXPORT_VERSION = 1;
+
+// The rendered markup needs KaTeX's fonts and a highlight.js theme, which the
+// exported file links from a CDN rather than embedding.
+const STYLESHEETS = [
+  'https://cdn.jsdelivr.net/npm/katex@0.16.47/dist/katex.min.css',
+  'https://cdn.jsdelivr.net/npm/highlight.js@11.12.0/styles/github-dark.min.css',
+];
+
+const PAGE_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.6; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .meta { color: #6b7280; font-size: 0.875rem; margin-bottom: 2rem; }
+  .message { margin-bottom: 1.5rem; padding: 0.75rem 1rem; border-radius: 0.75rem; break-inside: avoid; }
+  .user { background: #eef2ff; }
+  .model { background: #f3f4f6; }
+  .role { font-weight: 600; font-size: 0.875rem; color: #4f46e5; margin-bottom: 0.25rem; }
+  .message img { max-width: 100%; max-height: 24rem; border-radius: 0.5rem; }
+  .file { font-size: 0.875rem; color: #4b5563; }
+  pre { padding: 0.75rem; border-radius: 0.5rem; overflow-x: auto; background: #0d1117; }
+  pre code.hljs { padding: 0; }
+  code { font-size: 0.875em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; }
+  @media print { body { margin: 0; max-width: none; } pre { white-space: pre-wrap; } }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const roleLabel = (message: ChatMessage) => (message.role === 'user' ? 'You' : 'NexaNeuron');
+
+// Markdown, HTML and PDF show the branch on screen; JSON keeps every branch.
+const visibleMessages = (conversation: Conversation) =>
+  getPath(conversation.messages, conversation.leafId ?? getLatestLeaf(conversation.messages, null));
+
+const toolImages = (message: ChatMessage) => message.toolCalls?.flatMap(call => call.images ?? []) ?? [];
+
+export function toMarkdown(conversation: Conversation): string {
+  const sections = visibleMessages(conversation).map(message => {
+    const lines = [`### ${roleLabel(message)}`, ''];
+    for (const attachment of getMessageAttachments(message)) {
+      lines.push(attachment.kind === 'image'
+        ? `![${attachment.name}](${attachment.dataUrl})`
+        : `📎 ${attachment.name} (${formatBytes(attachment.size)})`);
+    }
+    // Message text is already markdown, so code fences come through as written
+    if (message.parts[0]?.text) lines.push(message.parts[0].text);
+    lines.push(...toolImages(message).map(src => `![Generated image](${src})`));
+    return lines.join('\n');
+  });
+  return [`# ${conversation.title}`, '', `_Exported from NexaNeuron on ${new Date().toLocaleString()}_`, '', ...sections].join('\n\n');
+}
+
+export function toHtml(conversation: Conversation): string {
+  const messages = visibleMessages(conversation).map(message => {
+    const attachments = getMessageAttachments(message).map(attachment => attachment.kind === 'image'
+      ? `<img src="${escapeHtml(attachment.dataUrl)}" alt="${escapeHtml(attachment.name)}">`
+      : `<p class="file">📎 ${escapeHtml(attachment.name)} (${formatBytes(attachment.size)})</p>`);
+    const images = toolImages(message).map(src => `<img src="${escapeHtml(src)}" alt="Generated image">`);
+    return `<section class="message ${message.role}">
+<div class="role">${roleLabel(message)}</div>
+${attachments.join('\n')}
+${geminiService.formatResponse(message.parts[0]?.text ?? '')}
+${images.join('\n')}
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(conversation.title)}</title>
+${STYLESHEETS.map(href => `<link rel="stylesheet" href="${href}">`).join('\n')}
+<style>${PAGE_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">Exported from NexaNeuron on ${escapeHtml(new Date().toLocaleString())}</p>
+${messages.join('\n')}
+</body>
+</html>`;
+}
+
+export function toJson(conversation: Conversation): string {
+  return JSON.stringify({
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation,
+  }, null, 2);
+}
+
+// Imported files are untrusted: every field is checked and rebuilt, and
+// anything malformed is dropped rather than carried into the chat or an export.
+const ATTACHMENT_KINDS: AttachmentKind[] = ['image', 'pdf', 'text'];
+const TOOL_CALL_STATUSES: ToolCallStatus[] = ['awaiting-confirmation', 'running', 'done', 'declined', 'error'];
+const DATA_URL = /^data:([\w.+-]+\/[\w.+-]+)(?:;[\w=.+-]+)*;base64,[A-Za-z0-9+/]*={0,2}$/;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const dataUrlType = (value: unknown) => (isString(value) ? value.match(DATA_URL)?.[1] : undefined);
+const isMediaUrl = (value: unknown, type: 'image' | 'audio') => dataUrlType(value)?.startsWith(`${type}/`) ?? false;
+
+function toAttachment(value: unknown): Attachment | undefined {
+  if (!isRecord(value)) return undefined;
+  const { id, name, mimeType, kind, size, dataUrl } = value;
+  if (!isString(id) || !isString(name) || !isString(mimeType) || !isNumber(size) || size < 0) return undefined;
+  if (!ATTACHMENT_KINDS.includes(kind as AttachmentKind) || !dataUrlType(dataUrl)) return undefined;
+  // Images are shown inline, so both types have to say image
+  if (kind === 'image' && !(mimeType.startsWith('image/') && isMediaUrl(dataUrl, 'image'))) return undefined;
+  return { id, name, mimeType, kind: kind as AttachmentKind, size, dataUrl: dataUrl as string };
+}
+
+function toToolCall(value: unknown): ToolCallRecord | undefined {
+  if (!isRecord(value)) return undefined;
+  const { id, name, args, status, cost, result, error, images, audio } = value;
+  if (!isString(id) || !isString(name) || !isRecord(args) || !TOOL_CALL_STATUSES.includes(status as ToolCallStatus)) return undefined;
+  return {
+    id,
+    name,
+    args,
+    status: status as ToolCallStatus,
+    ...(isNumber(cost) && { cost }),
+    ...(isRecord(result) && { result }),
+    ...(isString(error) && { error }),
+    ...(Array.isArray(images) && { images: images.filter(src => isMediaUrl(src, 'image')) }),
+    ...(isMediaUrl(audio, 'audio') && { audio: audio as string }),
+  };
+}
+
+function toCitation(value: unknown): Citation | undefined {
+  if (!isRecord(value)) return undefined;
+  const { documentId, documentName, chunkId, chunkIndex, text } = value;
+  if (!isString(documentId) || !isString(documentName) || !isString(chunkId) || !isNumber(chunkIndex) || !isString(text)) return undefined;
+  return { documentId, documentName, chunkId, chunkIndex, text };
+}
+
+function toUsage(value: unknown): TokenUsage | undefined {
+  if (!isRecord(value)) return undefined;
+  const { model, promptTokens, candidatesTokens, thinkingTokens, totalTokens } = value;
+  if (!isString(model) || ![promptTokens, candidatesTokens, thinkingTokens, totalTokens].every(isNumber)) return undefined;
+  return { model, promptTokens, candidatesTokens, thinkingTokens, totalTokens } as TokenUsage;
+}
+
+function toSafety(value: unknown): SafetyFeedback | undefined {
+  if (!isRecord(value) || !Array.isArray(value.ratings)) return undefined;
+  const ratings = value.ratings.filter(rating =>
+    isRecord(rating) && isString(rating.category) && isString(rating.probability) && typeof rating.blocked === 'boolean');
+  return {
+    ...(isString(value.blockReason) && { blockReason: value.blockReason }),
+    ...(isString(value.finishReason) && { finishReason: value.finishReason }),
+    ratings,
+  } as SafetyFeedback;
+}
+
+// The valid items of an array; undefined for anything that isn't one
+function validList<T>(value: unknown, parse: (item: unknown) => T | undefined): T[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.map(parse).filter((item): item is T => item !== undefined);
+}
+
+function toMessage(msg: any): ChatMessage {
+  const attachments = validList(msg.attachments, toAttachment);
+  const toolCalls = validList(msg.toolCalls, toToolCall);
+  const citations = validList(msg.citations, toCitation);
+  const usage = toUsage(msg.usage);
+  const safety = toSafety(msg.safety);
+  return {
+    ...(isString(msg.id) && { id: msg.id }),
+    ...((isString(msg.parentId) || msg.parentId === null) && { parentId: msg.parentId }),
+    role: msg.role,
+    parts: [{ text: msg.parts[0].text }],
+    ...(isMediaUrl(msg.imagePreview, 'image') && { imagePreview: msg.imagePreview }),
+    ...(attachments && { attachments }),
+    ...(toolCalls && { toolCalls }),
+    ...(citations && { citations }),
+    ...(usage && { usage }),
+    ...(safety && { safety }),
+    ...(isNumber(msg.timestamp) && { timestamp: msg.timestamp }),
+  };
+}
+
+// Reads what toJson writes. The conversation gets a fresh id so importing the
+// same file twice, or into the browser it came from, never overwrites a chat.
+export function parseConversation(json: string): Conversation {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (data?.format !== EXPORT_FORMAT_ID || !data.conversation) {
+    throw new Error('The file is not a NexaNeuron conversation export.');
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of NexaNeuron.');
+  }
+  const source = data.conversation;
+  const messagesAreValid = Array.isArray(source.messages) && source.messages.every((msg: any) =>
+    (msg?.role === 'user' || msg?.role === 'model') && typeof msg.parts?.[0]?.text === 'string');
+  if (!messagesAreValid) {
+    throw new Error('The conversation in the file has invalid messages.');
+  }
+
+  const messages: ChatMessage[] = normalizeTree(source.messages.map(toMessage));
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: typeof source.title === 'string' && source.title.trim() ? source.title.trim() : 'Imported chat',
+    personaId: typeof source.personaId === 'string' ? source.personaId : '',
+    model: typeof source.model === 'string' ? source.model : '',
+    systemInstruction: typeof source.systemInstruction === 'string' ? source.systemInstruction : '',
+    messages,
+    leafId: messages.some(msg => msg.id === source.leafId) ? source.leafId : getLatestLeaf(messages, null),
+    pinned: false,
+    createdAt: typeof source.createdAt === 'number' ? source.createdAt : now,
+    updatedAt: now,
+  };
+}
+
+// Prints the HTML export from a hidden frame, so the browser's dialog can save it as a PDF.
+export function printConversation(conversation: Conversation): Promise<void> {
+  return new Promise(resolve => {
+    const frame = document.createElement('iframe');
+    // No scripts in the page; same origin only so this window can call print()
+    frame.setAttribute('sandbox', 'allow-same-origin allow-modals');
+    frame.style.cssText = 'position:fixed;width:0;height:0;border:0;visibility:hidden';
+    frame.onload = () => {
+      frame.contentWindow?.print();
+      // print() blocks until the dialog closes in most browsers, but not all
+      setTimeout(() => {
+        frame.remove();
+        resolve();
+      }, 1000);
+    };
+    frame.srcdoc = toHtml(conversation);
+    document.body.appendChild(frame);
+  });
+}
+
+const slugify = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'chat';
+
+export function exportFileName(conversation: Conversation, extension: string): string {
+  return `NexaNeuron-${slugify(conversation.title)}.${extension}`;
+}
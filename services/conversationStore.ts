@@ -0,0 +1,79 @@
+import { ChatMessage, Conversation, Persona } from '../types';
+import { BUILT_IN_PERSONAS } from '../constants';
+import { promisifyRequest, withStore } from './db';
+
+const STORE = 'conversations';
+// Before conversations moved to IndexedDB, Chatbot kept one history per style
+// (now a built-in persona) under this prefix in localStorage.
+const LEGACY_HISTORY_PREFIX = 'nexaneuron-chat-history-';
+
+// Pinned conversations first, then the most recently active.
+export function sortConversations(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) =>
+    Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+}
+
+export function createConversation(persona: Persona): Conversation {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: 'New chat',
+    personaId: persona.id,
+    model: persona.model,
+    systemInstruction: persona.systemInstruction,
+    messages: [],
+    pinned: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+class ConversationStore {
+  private migration: Promise<void> | null = null;
+
+  async list(): Promise<Conversation[]> {
+    this.migration ??= this.migrateLegacyHistory();
+    await this.migration;
+    const conversations = await withStore(STORE, 'readonly', store => promisifyRequest<Conversation[]>(store.getAll()));
+    return sortConversations(conversations);
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    await withStore(STORE, 'readwrite', store => promisifyRequest(store.put(conversation)));
+  }
+
+  // Reads and writes in one transaction, so concurrent updates to different
+  // fields (say, messages and an auto-generated title) don't overwrite each other.
+  async update(id: string, changes: Partial<Conversation>): Promise<Conversation | undefined> {
+    return withStore(STORE, 'readwrite', async store => {
+      const existing = await promisifyRequest<Conversation | undefined>(store.get(id));
+      if (!existing) return undefined;
+      const updated = { ...existing, ...changes };
+      await promisifyRequest(store.put(updated));
+      return updated;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await withStore(STORE, 'readwrite', store => promisifyRequest(store.delete(id)));
+  }
+
+  private async migrateLegacyHistory(): Promise<void> {
+    const keys = Object.keys(localStorage).filter(key => key.startsWith(LEGACY_HISTORY_PREFIX));
+    for (const key of keys) {
+      try {
+        const messages: ChatMessage[] = JSON.parse(localStorage.getItem(key) ?? '[]');
+        if (Array.isArray(messages) && messages.length > 0) {
+          const style = key.slice(LEGACY_HISTORY_PREFIX.length);
+          const persona = BUILT_IN_PERSONAS.find(p => p.id === style.toLowerCase()) ?? BUILT_IN_PERSONAS[0];
+          await this.save({ ...createConversation(persona), title: `${style} chat`, messages });
+        }
+        localStorage.removeItem(key);
+      } catch (error) {
+        console.error(`Failed to migrate chat history from ${key}`, error);
+      }
+    }
+  }
+}
+
+export const conversationStore = new ConversationStore();
@@ -0,0 +1,80 @@
+const DB_NAME = 'nexaneuron';
+const DB_VERSION = 4;
+
+// Object stores and their key paths. Adding a store means bumping DB_VERSION.
+const STORES: Record<string, string> = {
+  conversations: 'id',
+  knowledgeDocuments: 'id',
+  knowledgeChunks: 'id',
+  responseCache: 'key',
+  jobs: 'id',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const [name, keyPath] of Object.entries(STORES)) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath });
+        }
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app in another tab upgrade the schema.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs `fn` inside one transaction and resolves with its result once the
+// transaction has committed. `fn` must only await requests on `store`, or the
+// transaction closes underneath it.
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  // Only awaited once `fn` succeeds; when it fails, its own error is the one
+  // thrown and the abort that follows must not surface as an unhandled rejection
+  committed.catch(() => {});
+  try {
+    const result = await fn(transaction.objectStore(storeName));
+    await committed;
+    return result;
+  } catch (error) {
+    try {
+      transaction.abort();
+    } catch {
+      // Already finished or aborted by the failed request
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,163 @@
+import { ApiError } from '@google/genai';
+
+export type GeminiErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'invalidArgument'
+  | 'notFound'
+  | 'network'
+  | 'timeout'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+const RETRYABLE_KINDS = new Set<GeminiErrorKind>(['quota', 'network', 'timeout', 'server']);
+
+// Every failure GeminiService throws, classified so callers can react to the
+// kind instead of matching on messages.
+export class GeminiError extends Error {
+  readonly status?: number;
+  // How long the API asked us to wait before trying again
+  readonly retryAfterMs?: number;
+
+  constructor(readonly kind: GeminiErrorKind, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'GeminiError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+}
+
+// A Retry-After header value: delay in seconds or an HTTP date.
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Gemini puts the wait in a RetryInfo detail of the error body, which the SDK
+// folds into the message: "retryDelay": "27s".
+function parseRetryDelay(message: string): number | undefined {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+// The API's own message from an SDK error, which wraps the JSON body.
+function apiMessage(message: string): string {
+  const match = message.match(/"message"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+  if (!match) return message;
+  try {
+    return JSON.parse(`"${match[1]}"`);
+  } catch {
+    return match[1];
+  }
+}
+
+function kindForStatus(status: number, message: string): GeminiErrorKind {
+  if (status === 400) return /API key|API_KEY/i.test(message) ? 'auth' : 'invalidArgument';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404) return 'notFound';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 413 || status === 422) return 'invalidArgument';
+  if (status === 429) return 'quota';
+  if (status === 499) return 'cancelled';
+  if (status >= 500) return 'server';
+  return 'unknown';
+}
+
+export function toGeminiError(error: unknown): GeminiError {
+  if (error instanceof GeminiError) return error;
+  if (error instanceof ApiError) {
+    const retryAfterMs = (error as ApiError & { retryAfterMs?: number }).retryAfterMs ?? parseRetryDelay(error.message);
+    return new GeminiError(kindForStatus(error.status, error.message), apiMessage(error.message), { status: error.status, retryAfterMs, cause: error });
+  }
+  if (error instanceof DOMException) {
+    if (error.name === 'AbortError') return new GeminiError('cancelled', error.message, { cause: error });
+    if (error.name === 'TimeoutError') return new GeminiError('timeout', error.message, { cause: error });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  // fetch rejects with a TypeError whose wording differs per browser
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new GeminiError('network', message, { cause: error });
+  }
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return new GeminiError('network', message, { cause: error });
+  }
+  if (/timed? ?out|deadline/i.test(message)) return new GeminiError('timeout', message, { cause: error });
+  return new GeminiError('unknown', message, { cause: error });
+}
+
+const formatWait = (ms: number) => (ms < 60_000 ? `${Math.ceil(ms / 1000)} seconds` : `${Math.ceil(ms / 60_000)} minutes`);
+
+// What to tell the user, with what they can do about it. Errors from outside
+// the API (say, a video that can't be read) keep their own message; `fallback`
+// covers anything else that couldn't be classified.
+export function describeError(error: unknown, fallback = 'Something went wrong. Please try again.'): string {
+  const geminiError = toGeminiError(error);
+  switch (geminiError.kind) {
+    case 'auth':
+      return 'The API key was rejected or lacks access to this feature. Check the key, or sign in again, and retry.';
+    case 'quota':
+      return geminiError.retryAfterMs
+        ? `You've reached the usage limit. Try again in about ${formatWait(geminiError.retryAfterMs)}.`
+        : "You've reached the usage limit. Wait a minute and try again, or check your plan's quota.";
+    case 'safety':
+      return geminiError.message;
+    case 'invalidArgument':
+      return `The request was rejected (${geminiError.message.replace(/\.$/, '')}). Check your input, such as the file type or size, and the advanced settings.`;
+    case 'notFound':
+      return 'The model or file wasn\'t found. Pick another model in Settings, or re-select your API key.';
+    case 'network':
+      return "Couldn't reach the AI service. Check your internet connection and try again.";
+    case 'timeout':
+      return 'The request took too long. Try again, or use a shorter prompt or a smaller file.';
+    case 'server':
+      return 'The AI service is having problems right now. Try again in a few minutes.';
+    case 'cancelled':
+      return 'The request was cancelled.';
+    default:
+      return error instanceof GeminiError || !(error instanceof Error) ? fallback : error.message || fallback;
+  }
+}
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30_000;
+// A longer wait than this is reported to the user rather than sat through
+const MAX_RETRY_AFTER_MS = 60_000;
+
+// How long to wait before retry number `attempt + 1`, or null to give up.
+// Exponential backoff with full jitter, unless the API said how long to wait.
+export function getRetryDelay(error: GeminiError, attempt: number): number | null {
+  if (!error.retryable || attempt >= MAX_RETRIES) return null;
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= MAX_RETRY_AFTER_MS ? error.retryAfterMs : null;
+  }
+  return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+}
+
+// Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts.
+export function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The request was cancelled.', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was cancelled.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
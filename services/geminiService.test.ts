@@ -0,0 +1,45 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { TokenUsage } from '../types';
+import { geminiService } from './geminiService';
+import { MockProvider } from './providers/mockProvider';
+
+// The mock waits a little before answering, as a real backend would
+const MOCK_TIMEOUT_MS = 15000;
+
+describe('geminiService on the mock provider', () => {
+  beforeAll(() => geminiService.setProvider(new MockProvider()));
+
+  it('reports the active provider', () => {
+    expect(geminiService.providerName).toBe('mock');
+  });
+
+  it('streams a chat reply and reports its usage', async () => {
+    const chat = await geminiService.startChat({ model: '', systemInstruction: 'Be brief.' });
+    const reported: TokenUsage[] = [];
+    let text = '';
+    for await (const chunk of geminiService.sendMessageToChatStream(chat, 'Hello there', [], { onUsage: usage => reported.push(usage) })) {
+      text += chunk;
+    }
+    expect(text).toContain('Hello there');
+    expect(reported.at(-1)?.totalTokens).toBeGreaterThan(0);
+  }, MOCK_TIMEOUT_MS);
+
+  it('tells usage listeners about calls outside chat', async () => {
+    const reported: TokenUsage[] = [];
+    const unsubscribe = geminiService.onUsage(usage => reported.push(usage));
+    try {
+      const answer = await geminiService.solveComplexTask('Plan a picnic');
+      expect(answer).toContain('Plan a picnic');
+    } finally {
+      unsubscribe();
+    }
+    expect(reported).toHaveLength(1);
+    expect(reported[0].promptTokens).toBeGreaterThan(0);
+  }, MOCK_TIMEOUT_MS);
+
+  it('generates images without a network', async () => {
+    const images = await geminiService.generateImage('a lighthouse', '1:1', 2);
+    expect(images).toHaveLength(2);
+    images.forEach(src => expect(src).toMatch(/^data:image\//));
+  }, MOCK_TIMEOUT_MS);
+});
@@ -1,58 +1,450 @@
-import { GoogleGenAI, Chat, Modality, Part, Type, Content } from '@google/genai';
-import { marked } from 'marked';
-import { AspectRatio, GroundingSource } from '../types';
+import { Content, FunctionCall, FunctionDeclaration, GenerateContentConfig, GenerateContentParameters, GenerateContentResponse, GenerateContentResponseUsageMetadata, GenerateVideosOperation, Modality, Part } from '@google/genai';
+import { AspectRatio, Attachment, ChatMessage, GenerationParams, GroundingSource, Persona, SafetyFeedback, TokenUsage } from '../types';
 import { fileToGenerativePart, decode, pcmToWavBlob } from './utils';
+import { renderMarkdown } from './markdown';
+import { attachmentToPart, getMessageAttachments } from './attachments';
+import { ChatSession, GenAiProvider } from './providers/types';
+import { EMBEDDING_MODEL, MODEL_TASKS, REFERENCE_VIDEO_MODEL, ModelTask, isModelNotFound, markModelUnavailable, resolveModel, supports } from './modelRegistry';
+import { GoogleProvider } from './providers/googleProvider';
+import { MockProvider } from './providers/mockProvider';
+import { ProxyProvider } from './providers/proxyProvider';
+import { toGenerationConfig } from './generationParams';
+import { ResponseBlockedError, getSafetyFeedback, mergeSafetySettings } from './safety';
+import { getRetryDelay, toGeminiError, waitFor } from './errors';
+import { RequestPriority, RequestScheduler, SchedulerState } from './requestScheduler';
+import { CacheOptions, CachedKind, getCacheSettings, hashKey, responseCache } from './responseCache';
+
+// How many times one reply may go back and forth through function calls.
+const MAX_TOOL_ROUNDS = 5;
+
+// Restored chat history above this size is condensed before it is handed to the
+// model; the most recent turns are kept verbatim within half of it.
+const CHAT_HISTORY_TOKEN_BUDGET = 32000;
+
+const EMBEDDING_DIMENSIONS = 768;
+// The most texts one embedContent request accepts.
+const EMBEDDING_BATCH_SIZE = 100;
+
+export function toTokenUsage(model: string, metadata: GenerateContentResponseUsageMetadata): TokenUsage {
+  return {
+    model,
+    promptTokens: metadata.promptTokenCount ?? 0,
+    candidatesTokens: metadata.candidatesTokenCount ?? 0,
+    thinkingTokens: metadata.thoughtsTokenCount ?? 0,
+    totalTokens: metadata.totalTokenCount ?? 0,
+  };
+}
+
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage): TokenUsage {
+  if (!a) return b;
+  return {
+    model: b.model,
+    promptTokens: a.promptTokens + b.promptTokens,
+    candidatesTokens: a.candidatesTokens + b.candidatesTokens,
+    thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  onFunctionCall?: (call: FunctionCall) => Promise<Record<string, unknown>>;
+  // Called with the reply's usage so far after each round trip to the model
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// With more than one candidate requested, each answer under its own heading.
+function candidatesText(response: GenerateContentResponse): string {
+  const candidates = response.candidates ?? [];
+  if (candidates.length < 2) return response.text ?? '';
+  return candidates
+    .map((candidate, i) => {
+      const text = (candidate.content?.parts ?? []).filter(part => !part.thought).map(part => part.text ?? '').join('');
+      return `### Answer ${i + 1}\n\n${text}`;
+    })
+    .join('\n\n');
+}
+
+// Resolves on the video's next `event`, rejects with `errorMessage` on its next
+// error or with the reason if `signal` aborts first. Every listener is removed
+// once one of them fires.
+function waitForVideoEvent(video: HTMLVideoElement, event: 'loadedmetadata' | 'seeked', errorMessage: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const settle = (finish: () => void) => () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+      finish();
+    };
+    const onEvent = settle(resolve);
+    const onError = settle(() => reject(new Error(errorMessage)));
+    const onAbort = settle(() => reject(signal!.reason));
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+// GENAI_PROVIDER is inlined by vite.config.ts; anything other than "proxy" or
+// "mock" talks to Gemini directly with the bundled key.
+function createDefaultProvider(): GenAiProvider {
+  switch (process.env.GENAI_PROVIDER) {
+    case 'proxy':
+      return new ProxyProvider(process.env.GENAI_PROXY_URL);
+    case 'mock':
+      return new MockProvider();
+    default:
+      return new GoogleProvider();
+  }
+}
 
 class GeminiService {
-  private getAi(forceNew: boolean = false) {
-    // For VEO, we need a new instance to pick up the key.
-    // This is a simplified approach; a more robust solution would manage this state better.
-    if (forceNew) {
-      return new GoogleGenAI({ apiKey: process.env.API_KEY! });
+  private usageListeners = new Set<(usage: TokenUsage) => void>();
+  // Chat sessions don't expose their model, which usage is priced by
+  private chatModels = new WeakMap<ChatSession, string>();
+  // A per-message config replaces the chat's own instead of adding to it, so
+  // each message carries the whole config along with its abort signal
+  private chatConfigs = new WeakMap<ChatSession, GenerateContentConfig>();
+  private scheduler = new RequestScheduler();
+
+  constructor(private provider: GenAiProvider = createDefaultProvider()) {}
+
+  get providerName() {
+    return this.provider.name;
+  }
+
+  setProvider(provider: GenAiProvider) {
+    this.provider = provider;
+  }
+
+  // `listener` gets the usageMetadata of every text response from now on;
+  // returns a function that unsubscribes it.
+  onUsage(listener: (usage: TokenUsage) => void): () => void {
+    this.usageListeners.add(listener);
+    return () => this.usageListeners.delete(listener);
+  }
+
+  private recordUsage(model: string, metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined {
+    if (!metadata) return undefined;
+    const usage = toTokenUsage(model, metadata);
+    this.usageListeners.forEach(listener => listener(usage));
+    return usage;
+  }
+
+  // `listener` gets the requests waiting for a model's rate limit whenever they
+  // change; returns a function that unsubscribes it.
+  onQueueChange(listener: (state: SchedulerState) => void): () => void {
+    return this.scheduler.subscribe(listener);
+  }
+
+  getQueueState(): SchedulerState {
+    return this.scheduler.getState();
+  }
+
+  // Runs `request` until it succeeds, retrying failures that may pass on their
+  // own (see getRetryDelay). Whatever it finally throws is a GeminiError.
+  private async withRetry<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const geminiError = toGeminiError(error);
+        const delay = getRetryDelay(geminiError, attempt);
+        if (delay === null || signal?.aborted) throw geminiError;
+        console.warn(`Request failed (${geminiError.kind}), retrying in ${Math.round(delay)} ms`, geminiError);
+        await waitFor(delay, signal).catch(cancelled => {
+          throw toGeminiError(cancelled);
+        });
+      }
+    }
+  }
+
+  // withRetry for a call that counts against `model`'s rate limit: each attempt
+  // waits its turn in the scheduler's queue.
+  private schedule<T>(model: string, request: () => Promise<T>, signal?: AbortSignal, priority: RequestPriority = 'batch'): Promise<T> {
+    return this.withRetry(() => this.scheduler.run(model, request, priority, signal), signal);
+  }
+
+  // Answers from the response cache when the user turned it on, keyed by the
+  // model and everything `keyParts` returns, which is only read (an image, say)
+  // while the cache is on. A cache that can't be read or written is skipped
+  // rather than failing the request.
+  private async cached<T>(
+    kind: CachedKind,
+    model: string,
+    label: string,
+    keyParts: () => (string | ArrayBuffer)[] | Promise<(string | ArrayBuffer)[]>,
+    request: () => Promise<T>,
+    { refresh, onCacheHit }: CacheOptions,
+  ): Promise<T> {
+    if (!getCacheSettings().enabled) return request();
+    const key = await hashKey([kind, model, ...await keyParts()]);
+    if (!refresh) {
+      const entry = await responseCache.get<T>(key).catch(error => {
+        console.error("Failed to read the response cache", error);
+        return undefined;
+      });
+      if (entry) {
+        onCacheHit?.(entry.createdAt);
+        return entry.value;
+      }
+    }
+    const value = await request();
+    responseCache.put({ key, kind, model, label: label.slice(0, 200), value })
+      .catch(error => console.error("Failed to write the response cache", error));
+    return value;
+  }
+
+  // Throws ResponseBlockedError when the prompt or every answer was blocked.
+  private async generateContent(params: GenerateContentParameters, signal?: AbortSignal, priority?: RequestPriority) {
+    const request = signal ? { ...params, config: { ...params.config, abortSignal: signal } } : params;
+    const response = await this.schedule(params.model, () => this.provider.generateContent(request), signal, priority);
+    this.recordUsage(params.model, response.usageMetadata);
+    const feedback = getSafetyFeedback(response);
+    if (feedback) throw new ResponseBlockedError(feedback);
+    return response;
+  }
+
+  // Runs `request` with the model for `task`, and once more with the task's
+  // default if the API says that model doesn't exist (retired or not enabled).
+  private async withModelFallback<T>(task: ModelTask, request: (model: string) => Promise<T>, requested?: string): Promise<T> {
+    const model = resolveModel(task, requested);
+    try {
+      return await request(model);
+    } catch (error) {
+      const fallback = MODEL_TASKS[task].defaultModel;
+      if (!isModelNotFound(error) || model === fallback) throw error;
+      console.warn(`${model} is unavailable, using ${fallback} instead`, error);
+      markModelUnavailable(model);
+      return request(fallback);
     }
-    // Standard singleton pattern for other services
-    // Note: The global API key from process.env.API_KEY is used here.
-    return new GoogleGenAI({ apiKey: process.env.API_KEY! });
   }
 
   // CHATBOT
-  startChat(model: string, systemInstruction?: string): Chat {
-    const ai = this.getAi();
-    return ai.chats.create({
-      model,
-      ...(systemInstruction && { config: { systemInstruction } }),
-    });
+  // `params` are the chat's advanced settings; a persona's own temperature,
+  // top-P and safety settings take precedence over them.
+  async startChat(
+    persona: Pick<Persona, 'model' | 'systemInstruction' | 'temperature' | 'topP' | 'safetySettings'>,
+    history: ChatMessage[] = [],
+    functionDeclarations: FunctionDeclaration[] = [],
+    params: GenerationParams = {},
+  ): Promise<ChatSession> {
+    const { systemInstruction, temperature, topP, safetySettings } = persona;
+    const model = resolveModel('chat', persona.model);
+    const contents = await this.fitHistoryToBudget(model, this.toChatContents(history));
+    const mergedSafety = mergeSafetySettings(params.safetySettings, safetySettings);
+    const config: GenerateContentConfig = {
+      // A chat reply is one message, so only one candidate is asked for
+      ...toGenerationConfig({ ...params, candidateCount: undefined }, model),
+      ...(systemInstruction && { systemInstruction }),
+      ...(temperature !== undefined && { temperature }),
+      ...(topP !== undefined && { topP }),
+      ...(mergedSafety && { safetySettings: mergedSafety }),
+      ...(functionDeclarations.length && { tools: [{ functionDeclarations }] }),
+    };
+    const chat = this.provider.createChat({ model, history: contents, config });
+    this.chatModels.set(chat, model);
+    this.chatConfigs.set(chat, config);
+    return chat;
   }
 
-  async sendMessageToChat(chat: Chat, message: string, image: File | null = null): Promise<string> {
+  // Mirrors what sendMessageToChatStream sends for each message.
+  private toChatContents(messages: ChatMessage[]): Content[] {
+    return messages
+      .map(msg => ({ role: msg.role, parts: this.buildMessageParts(msg.parts[0]?.text ?? '', getMessageAttachments(msg)) }))
+      .filter(content => content.parts.length > 0);
+  }
+
+  private async countTokens(model: string, contents: Content[], signal?: AbortSignal): Promise<number> {
+    const { totalTokens } = await this.withRetry(() => this.provider.countTokens({ model, contents, config: { abortSignal: signal } }), signal);
+    return totalTokens ?? 0;
+  }
+
+  // Roughly the prompt size of sending `message` after `history`, before the
+  // system instruction and any history condensing. `model` is a persona's.
+  async countRequestTokens(model: string, history: ChatMessage[], message: string, attachments: Attachment[] = [], signal?: AbortSignal): Promise<number> {
+    const parts = this.buildMessageParts(message, attachments);
+    const contents = this.toChatContents(history);
+    return this.countTokens(resolveModel('chat', model), parts.length > 0 ? [...contents, { role: 'user', parts }] : contents, signal);
+  }
+
+  // Keeps the newest turns that fit in half the budget and replaces everything
+  // older with a model-written summary. Falls back to dropping the older turns
+  // if they cannot be summarized.
+  private async fitHistoryToBudget(model: string, contents: Content[]): Promise<Content[]> {
+    if (contents.length === 0 || await this.countTokens(model, contents) <= CHAT_HISTORY_TOKEN_BUDGET) {
+      return contents;
+    }
+
+    let start = 0;
+    do {
+      start += Math.max(1, Math.floor((contents.length - start) / 2));
+      // History has to open with a user turn.
+      while (start < contents.length && contents[start].role !== 'user') start++;
+    } while (
+      start < contents.length - 2 &&
+      await this.countTokens(model, contents.slice(start)) > CHAT_HISTORY_TOKEN_BUDGET / 2
+    );
+    const recent = contents.slice(start);
+
+    try {
+      const summary = await this.summarize(contents.slice(0, start));
+      if (!summary) return recent;
+      return [
+        { role: 'user', parts: [{ text: `Here is a summary of the earlier part of our conversation:\n\n${summary}` }] },
+        { role: 'model', parts: [{ text: 'Thanks, I have the context. Let\'s continue.' }] },
+        ...recent,
+      ];
+    } catch (error) {
+      console.error('Failed to summarize chat history, dropping older messages instead', error);
+      return recent;
+    }
+  }
+
+  private buildMessageParts(message: string, attachments: Attachment[]): Part[] {
     const parts: Part[] = [];
     if (message.trim()) {
         parts.push({ text: message });
     }
-    if (image) {
-        const imagePart = await fileToGenerativePart(image);
-        parts.push(imagePart);
-    }
-    const response = await chat.sendMessage({ message: parts });
+    parts.push(...attachments.map(attachmentToPart));
+    return parts;
+  }
+
+  async sendMessageToChat(chat: ChatSession, message: string, attachments: Attachment[] = [], signal?: AbortSignal): Promise<string> {
+    const parts = this.buildMessageParts(message, attachments);
+    const model = this.chatModels.get(chat) ?? resolveModel('chat');
+    const response = await this.schedule(model, () => chat.sendMessage({ message: parts, config: { ...this.chatConfigs.get(chat), abortSignal: signal } }), signal, 'interactive');
+    this.recordUsage(model, response.usageMetadata);
+    const feedback = getSafetyFeedback(response);
+    if (feedback) throw new ResponseBlockedError(feedback);
     return response.text;
   }
 
+  // Yields the reply text as it arrives. Aborting `signal` cancels the request
+  // itself; whatever was yielded up to that point is the caller's to keep. A
+  // stopped reply is never recorded in `chat`'s history (only finished turns
+  // are), so a caller keeping the partial text must start a new chat from its
+  // messages for the model to see what the user sees.
+  // Function calls are handed to `onFunctionCall` and its results sent back to
+  // the model, which then carries on with the reply. Throws ResponseBlockedError,
+  // possibly after some text, if the prompt or the reply is blocked.
+  async *sendMessageToChatStream(
+    chat: ChatSession,
+    message: string,
+    attachments: Attachment[] = [],
+    { signal, onFunctionCall, onUsage }: StreamOptions = {},
+  ): AsyncGenerator<string> {
+    const model = this.chatModels.get(chat) ?? resolveModel('chat');
+    let nextMessage: Part[] = this.buildMessageParts(message, attachments);
+    let usage: TokenUsage | undefined;
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      if (signal?.aborted) return;
+      // Only opening the stream is retried; a reply that broke off part-way is
+      // left for the caller to keep or discard
+      const stream = await this.schedule(model, () => chat.sendMessageStream({ message: nextMessage, config: { ...this.chatConfigs.get(chat), abortSignal: signal } }), signal, 'interactive')
+        .catch(error => {
+          // The next chat started falls back to the default model
+          if (isModelNotFound(error)) markModelUnavailable(model);
+          throw error;
+        });
+      const calls: FunctionCall[] = [];
+      // Each chunk carries the round's usage so far; the last one has the total
+      let roundUsage: GenerateContentResponseUsageMetadata | undefined;
+      let feedback: SafetyFeedback | undefined;
+      try {
+        for await (const chunk of stream) {
+          roundUsage = chunk.usageMetadata ?? roundUsage;
+          feedback = getSafetyFeedback(chunk) ?? feedback;
+          if (signal?.aborted) return;
+          // Not chunk.text, which warns whenever a chunk also carries a function call
+          const text = chunk.candidates?.[0]?.content?.parts
+            ?.filter(part => part.text && !part.thought)
+            .map(part => part.text)
+            .join('');
+          if (text) yield text;
+          calls.push(...(chunk.functionCalls ?? []));
+        }
+      } catch (error) {
+        throw toGeminiError(error);
+      }
+      const recorded = this.recordUsage(model, roundUsage);
+      if (recorded) {
+        usage = addUsage(usage, recorded);
+        onUsage?.(usage);
+      }
+      if (feedback) throw new ResponseBlockedError(feedback);
+      if (calls.length === 0 || !onFunctionCall) return;
+
+      nextMessage = [];
+      for (const call of calls) {
+        const response = await onFunctionCall(call);
+        if (signal?.aborted) return;
+        nextMessage.push({ functionResponse: { id: call.id, name: call.name, response } });
+      }
+    }
+  }
+
+  private async summarize(contents: Content[], signal?: AbortSignal): Promise<string> {
+    const response = await this.withModelFallback('utility', model => this.generateContent({
+      model,
+      contents: [
+        ...contents,
+        { role: 'user', parts: [{ text: 'Summarize our conversation so far in a few short paragraphs. Keep names, facts, decisions and open questions; skip pleasantries.' }] },
+      ],
+    }, signal, 'interactive'));
+    return response.text ?? '';
+  }
+
+  async summarizeConversation(messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+    return this.summarize(this.toChatContents(messages), signal);
+  }
+
+  async translate(text: string, language: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.withModelFallback('utility', model => this.generateContent({
+      model,
+      contents: `Translate the text below into ${language}. Keep its formatting, including markdown and code blocks, and translate only prose and comments. Reply with the translation only.\n\n${text}`,
+    }, signal, 'interactive'));
+    return response.text ?? '';
+  }
+
+  async generateChatTitle(userMessage: string, modelReply: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.withModelFallback('utility', model => this.generateContent({
+      model,
+      contents: `Write a title of at most six words for a conversation that begins with the exchange below. Reply with the title only, without quotes or a trailing period.\n\nUser: ${userMessage}\n\nAssistant: ${modelReply.slice(0, 2000)}`,
+    }, signal, 'interactive'));
+    return (response.text ?? '').trim().replace(/^["']+|["'.]+$/g, '');
+  }
+
   // COMPLEX TASK SOLVER
-  async solveComplexTask(prompt: string): Promise<string> {
-    const ai = this.getAi();
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-pro',
+  async solveComplexTask(prompt: string, params: GenerationParams = {}, signal?: AbortSignal): Promise<string> {
+    const response = await this.withModelFallback('complexTask', model => this.generateContent({
+      model,
       contents: prompt,
       config: {
+        ...toGenerationConfig(params, model),
         thinkingConfig: { thinkingBudget: 32768 }
       }
-    });
-    return response.text;
+    }, signal));
+    return candidatesText(response);
   }
 
   // GROUNDED SEARCH
-  async groundedSearch(query: string, useMaps: boolean, location: { latitude: number; longitude: number } | null): Promise<{ text: string, sources: GroundingSource[] }> {
-    const ai = this.getAi();
+  async groundedSearch(
+    query: string,
+    useMaps: boolean,
+    location: { latitude: number; longitude: number } | null,
+    signal?: AbortSignal,
+    cache: CacheOptions = {},
+  ): Promise<{ text: string, sources: GroundingSource[] }> {
+    const keyParts = () => [query, JSON.stringify({ useMaps, location: useMaps ? location : null })];
+    return this.cached('groundedSearch', resolveModel('search'), query, keyParts, () => this.searchWithGrounding(query, useMaps, location, signal), cache);
+  }
+
+  private async searchWithGrounding(query: string, useMaps: boolean, location: { latitude: number; longitude: number } | null, signal?: AbortSignal): Promise<{ text: string, sources: GroundingSource[] }> {
     const tools: any[] = [{ googleSearch: {} }];
     if (useMaps) {
       tools.push({ googleMaps: {} });
@@ -67,11 +459,11 @@ class GeminiService {
       };
     }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+    const response = await this.withModelFallback('search', model => this.generateContent({
+      model,
       contents: query,
       config,
-    });
+    }, signal, 'interactive'));
     
     const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
     const sources: GroundingSource[] = groundingChunks
@@ -85,41 +477,68 @@ class GeminiService {
     return { text: response.text, sources };
   }
 
+  // KNOWLEDGE BASE
+  async embedTexts(texts: string[], taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY', signal?: AbortSignal): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const response = await this.schedule(EMBEDDING_MODEL, () => this.provider.embedContent({
+        model: EMBEDDING_MODEL,
+        contents: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+        config: { taskType, outputDimensionality: EMBEDDING_DIMENSIONS, abortSignal: signal },
+      }), signal);
+      vectors.push(...(response.embeddings ?? []).map(embedding => embedding.values ?? []));
+    }
+    return vectors;
+  }
+
+  // Saves bundling a PDF parser: the model transcribes the document instead.
+  async extractDocumentText(file: File, signal?: AbortSignal): Promise<string> {
+    const documentPart = await fileToGenerativePart(file);
+    const response = await this.withModelFallback('vision', model => this.generateContent({
+      model,
+      contents: { parts: [documentPart, { text: 'Transcribe the full text of this document as markdown, in reading order. Keep headings, lists and tables; describe figures in one line. Reply with the transcription only.' }] },
+    }, signal));
+    return response.text ?? '';
+  }
+
   // IMAGE ANALYZER
-  async analyzeImage(prompt: string, image: File): Promise<string> {
-    const ai = this.getAi();
-    const imagePart = await fileToGenerativePart(image);
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [{ text: prompt }, imagePart] }
-    });
-    return response.text;
+  async analyzeImage(prompt: string, image: File, params: GenerationParams = {}, signal?: AbortSignal, cache: CacheOptions = {}): Promise<string> {
+    const model = resolveModel('vision');
+    const keyParts = async () => [prompt, JSON.stringify(toGenerationConfig(params, model)), image.type, await image.arrayBuffer()];
+    return this.cached('imageAnalysis', model, prompt, keyParts, async () => {
+      const imagePart = await fileToGenerativePart(image);
+      const response = await this.withModelFallback('vision', model => this.generateContent({
+        model,
+        contents: { parts: [{ text: prompt }, imagePart] },
+        config: toGenerationConfig(params, model),
+      }, signal));
+      return candidatesText(response);
+    }, cache);
   }
 
   // IMAGE GENERATOR
-  async generateImage(prompt: string, aspectRatio: AspectRatio, numberOfImages: number): Promise<string[]> {
-    const ai = this.getAi();
-    const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001',
+  async generateImage(prompt: string, aspectRatio: AspectRatio, numberOfImages: number, signal?: AbortSignal): Promise<string[]> {
+    const response = await this.withModelFallback('imageGeneration', model => this.schedule(model, () => this.provider.generateImages({
+      model,
       prompt: prompt,
       config: {
         numberOfImages: numberOfImages,
         outputMimeType: 'image/jpeg',
         aspectRatio,
+        abortSignal: signal,
       },
-    });
+    }), signal));
     const imageUrls = response.generatedImages.map(img => {
       const base64ImageBytes: string = img.image.imageBytes;
-      return `data:image/jpeg;base64,${base64ImageBytes}`;
+      return `data:${img.image.mimeType ?? 'image/jpeg'};base64,${base64ImageBytes}`;
     });
     return imageUrls;
   }
 
   // LIVE AGENT
   connectLive(callbacks: any) {
-    const ai = this.getAi();
-    return ai.live.connect({
-      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    return this.provider.connectLive({
+      model: resolveModel('live'),
       callbacks,
       config: {
         responseModalities: [Modality.AUDIO],
@@ -133,10 +552,13 @@ class GeminiService {
   }
 
   // TEXT TO SPEECH
-  async generateSpeech(text: string, voice: string): Promise<string> {
-    const ai = this.getAi();
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
+  async generateSpeech(text: string, voice: string, signal?: AbortSignal, cache: CacheOptions = {}): Promise<string> {
+    return this.cached('speech', resolveModel('speech'), text, () => [text, voice], () => this.synthesizeSpeech(text, voice, signal), cache);
+  }
+
+  private async synthesizeSpeech(text: string, voice: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.withModelFallback('speech', model => this.generateContent({
+      model,
       contents: [{ parts: [{ text }] }],
       config: {
         responseModalities: [Modality.AUDIO],
@@ -146,14 +568,14 @@ class GeminiService {
             },
         },
       },
-    });
+    }, signal));
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!base64Audio) throw new Error("No audio data received");
     return base64Audio;
   }
 
-  async generateSpeechAndGetUrl(text: string, voice: string): Promise<string> {
-    const base64Audio = await this.generateSpeech(text, voice);
+  async generateSpeechAndGetUrl(text: string, voice: string, signal?: AbortSignal): Promise<string> {
+    const base64Audio = await this.generateSpeech(text, voice, signal);
     const decodedPcm = decode(base64Audio);
     const wavBlob = pcmToWavBlob(decodedPcm, 24000, 1); // TTS is 24kHz, mono
     return URL.createObjectURL(wavBlob);
@@ -163,8 +585,10 @@ class GeminiService {
   private async _processVideoToFrames(
     videoSource: File | string,
     onProgress: (p: number) => void,
-    frameCount: number = 10
+    frameCount: number = 10,
+    signal?: AbortSignal,
   ): Promise<string[]> {
+    signal?.throwIfAborted();
     const isFile = videoSource instanceof File;
     const videoURL = isFile ? URL.createObjectURL(videoSource) : videoSource as string;
 
@@ -175,12 +599,7 @@ class GeminiService {
     videoElement.src = videoURL;
     
     try {
-        await new Promise<void>((resolve, reject) => {
-            videoElement.addEventListener('loadedmetadata', () => resolve());
-            videoElement.addEventListener('error', () => {
-                reject(new Error('Could not load video. This may be due to web security (CORS) restrictions. Try a different URL or upload the file directly.'));
-            });
-        });
+        await waitForVideoEvent(videoElement, 'loadedmetadata', 'Could not load video. This may be due to web security (CORS) restrictions. Try a different URL or upload the file directly.', signal);
         
         const canvas = document.createElement('canvas');
         const context = canvas.getContext('2d')!;
@@ -196,21 +615,11 @@ class GeminiService {
         }
         
         for (let i = 0; i < frameCount; i++) {
+            signal?.throwIfAborted();
             const time = (duration / frameCount) * i;
             videoElement.currentTime = time;
             
-            await new Promise<void>((resolve, reject) => {
-                const onSeeked = () => {
-                    videoElement.removeEventListener('seeked', onSeeked);
-                    resolve();
-                };
-                videoElement.addEventListener('seeked', onSeeked);
-                const onError = () => {
-                   videoElement.removeEventListener('error', onError);
-                   reject(new Error('Error seeking video to extract frame.'));
-                }
-                videoElement.addEventListener('error', onError);
-            });
+            await waitForVideoEvent(videoElement, 'seeked', 'Error seeking video to extract frame.', signal);
 
             context.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
             const framePromise = new Promise<string>((resolve, reject) => {
@@ -239,35 +648,37 @@ class GeminiService {
     }
   }
 
-  async getVideoFrames(videoSource: File | string, frameCount: number = 3): Promise<string[]> {
+  async getVideoFrames(videoSource: File | string, frameCount: number = 3, signal?: AbortSignal): Promise<string[]> {
     // A simplified version of the processing without progress reporting for this use case
     const onProgress = () => {};
-    const frames = await this._processVideoToFrames(videoSource, onProgress, frameCount);
+    const frames = await this._processVideoToFrames(videoSource, onProgress, frameCount, signal);
     return frames;
   }
   
-  async analyzeVideo(prompt: string, videoSource: File | string, onProgress: (p: number) => void): Promise<string> {
-    const frames = await this._processVideoToFrames(videoSource, onProgress);
+  async analyzeVideo(prompt: string, videoSource: File | string, onProgress: (p: number) => void, params: GenerationParams = {}, signal?: AbortSignal): Promise<string> {
+    const frames = await this._processVideoToFrames(videoSource, onProgress, 10, signal);
     const parts = [
       { text: prompt },
       ...frames.map(data => ({ inlineData: { mimeType: 'image/jpeg', data } }))
     ];
     onProgress(51);
-    const response = await this.getAi().models.generateContent({
-      model: 'gemini-2.5-pro',
-      contents: { parts }
-    });
+    const response = await this.withModelFallback('videoAnalysis', model => this.generateContent({
+      model,
+      contents: { parts },
+      config: toGenerationConfig(params, model),
+    }, signal));
     onProgress(100);
-    return response.text;
+    return candidatesText(response);
   }
 
   async getVideoAnalysis(
     videoSource: File | string,
     prompt: string,
     onProgress: (p: number) => void,
-    responseSchema?: any
+    responseSchema?: any,
+    signal?: AbortSignal,
   ): Promise<string> {
-    const frames = await this._processVideoToFrames(videoSource, onProgress, 15);
+    const frames = await this._processVideoToFrames(videoSource, onProgress, 15, signal);
     const parts = [
       { text: prompt },
       ...frames.map(data => ({ inlineData: { mimeType: 'image/jpeg', data } }))
@@ -281,34 +692,44 @@ class GeminiService {
       config.responseSchema = responseSchema;
     }
     
-    const response = await this.getAi().models.generateContent({
-      model: 'gemini-2.5-pro',
+    const response = await this.withModelFallback('videoAnalysis', model => this.generateContent({
+      model,
       contents: { parts },
       config,
-    });
+    }, signal));
 
     onProgress(100);
     return response.text;
   }
 
   // VIDEO GENERATOR
-  async generateVideo(prompt: string, aspectRatio: "16:9" | "9:16", image: File | null, duration: number | null, referenceImages?: string[] | null): Promise<string> {
-    const ai = this.getAi(true);
+  // Aborting `signal` stops the polling and download; Veo has no way to cancel
+  // an operation, so it still finishes on Google's side.
+  async generateVideo(prompt: string, aspectRatio: "16:9" | "9:16", image: File | null, duration: number | null, referenceImages?: string[] | null, signal?: AbortSignal): Promise<string> {
+    const operationName = await this.startVideoGeneration(prompt, aspectRatio, image, duration, referenceImages, signal);
+    return URL.createObjectURL(await this.waitForVideo(operationName, signal));
+  }
 
+  // Submits a Veo generation and returns the name of its operation, which is
+  // all waitForVideo needs, even after a reload.
+  async startVideoGeneration(prompt: string, aspectRatio: "16:9" | "9:16", image: File | null, duration: number | null, referenceImages?: string[] | null, signal?: AbortSignal): Promise<string> {
     const hasReferenceImages = referenceImages && referenceImages.length > 0;
 
     const config: any = {
         numberOfVideos: 1,
         resolution: '720p',
         aspectRatio: hasReferenceImages ? '16:9' : aspectRatio,
+        abortSignal: signal,
     };
 
     if (duration) {
       config.duration = `${duration}s`;
     }
     
+    const chosenModel = resolveModel('videoGeneration');
     const payload: any = {
-        model: hasReferenceImages ? 'veo-3.1-generate-preview' : 'veo-3.1-fast-generate-preview',
+        // Reference images need a model that accepts them
+        model: hasReferenceImages && !supports(chosenModel, 'reference-images') ? REFERENCE_VIDEO_MODEL : chosenModel,
         prompt,
         config,
     };
@@ -335,11 +756,20 @@ class GeminiService {
         };
     }
     
-    let operation = await ai.models.generateVideos(payload);
-    
-    while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        operation = await ai.operations.getVideosOperation({ operation: operation });
+    const operation = await this.withModelFallback('videoGeneration', model => this.schedule(model, () => this.provider.generateVideos({ ...payload, model }), signal), payload.model);
+    if (!operation.name) throw new Error('Video generation did not start.');
+    return operation.name;
+  }
+
+  // Polls the operation every 10 seconds until the video is ready, then downloads it.
+  async waitForVideo(operationName: string, signal?: AbortSignal): Promise<Blob> {
+    let operation: GenerateVideosOperation = Object.assign(new GenerateVideosOperation(), { name: operationName });
+    for (;;) {
+        operation = await this.withRetry(() => this.provider.getVideosOperation(operation, signal), signal);
+        if (operation.done) break;
+        await waitFor(10000, signal).catch(cancelled => {
+          throw toGeminiError(cancelled);
+        });
     }
 
     if (!operation.response?.generatedVideos?.[0]?.video?.uri) {
@@ -347,14 +777,14 @@ class GeminiService {
     }
 
     const downloadLink = operation.response.generatedVideos[0].video.uri;
-    const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-    const videoBlob = await videoResponse.blob();
-    return URL.createObjectURL(videoBlob);
+    return this.withRetry(() => this.provider.downloadVideo(downloadLink, signal), signal);
   }
 
   // UTILITY
+  // Everything rendered with dangerouslySetInnerHTML goes through here, so the
+  // markdown is sanitized before it reaches the page.
   formatResponse(text: string): string {
-    return marked(text, { breaks: true, gfm: true });
+    return renderMarkdown(text);
   }
 }
 
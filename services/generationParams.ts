@@ -0,0 +1,82 @@
+import { GenerateContentConfig, HarmBlockThreshold, HarmCategory } from '@google/genai';
+import { GenerationParams } from '../types';
+import { findModel } from './modelRegistry';
+
+export type GenerationFeature = 'chat' | 'complexTask' | 'imageAnalysis' | 'videoAnalysis';
+
+export type GenerationField = keyof GenerationParams;
+
+const STORAGE_PREFIX = 'nexaneuron-generation-';
+
+// Limits the Gemini API enforces for every model; the output token limit comes
+// from the model registry.
+export const TOP_K_LIMIT = 64;
+export const MAX_STOP_SEQUENCES = 5;
+export const MAX_CANDIDATES = 8;
+
+export function loadGenerationParams(feature: GenerationFeature): GenerationParams {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_PREFIX + feature) ?? '{}');
+    return saved && typeof saved === 'object' ? saved : {};
+  } catch (error) {
+    console.error(`Failed to parse ${feature} generation settings from localStorage`, error);
+    return {};
+  }
+}
+
+export function saveGenerationParams(feature: GenerationFeature, params: GenerationParams) {
+  localStorage.setItem(STORAGE_PREFIX + feature, JSON.stringify(params));
+}
+
+const isInteger = (value: number, min: number, max: number = Number.MAX_SAFE_INTEGER) =>
+  Number.isInteger(value) && value >= min && value <= max;
+
+// Why `value` can't be used for `field` with `model`, or null when it can.
+export function validateGenerationField<K extends GenerationField>(field: K, value: GenerationParams[K], model: string): string | null {
+  if (value === undefined) return null;
+  switch (field) {
+    case 'temperature': {
+      const n = value as number;
+      return n >= 0 && n <= 2 ? null : 'Temperature must be between 0 and 2.';
+    }
+    case 'topP': {
+      const n = value as number;
+      return n >= 0 && n <= 1 ? null : 'Top-P must be between 0 and 1.';
+    }
+    case 'topK':
+      return isInteger(value as number, 1, TOP_K_LIMIT) ? null : `Top-K must be a whole number from 1 to ${TOP_K_LIMIT}.`;
+    case 'maxOutputTokens': {
+      const limit = findModel(model)?.outputTokenLimit;
+      if (!isInteger(value as number, 1, limit)) {
+        return limit ? `Max output tokens must be from 1 to ${limit.toLocaleString()} for ${model}.` : 'Max output tokens must be a positive whole number.';
+      }
+      return null;
+    }
+    case 'stopSequences': {
+      const sequences = value as string[];
+      if (sequences.length > MAX_STOP_SEQUENCES) return `At most ${MAX_STOP_SEQUENCES} stop sequences are allowed.`;
+      return sequences.some(sequence => !sequence) ? 'Stop sequences cannot be empty.' : null;
+    }
+    case 'seed':
+      return Number.isInteger(value) ? null : 'Seed must be a whole number.';
+    case 'candidateCount':
+      return isInteger(value as number, 1, MAX_CANDIDATES) ? null : `Candidate count must be from 1 to ${MAX_CANDIDATES}.`;
+    case 'safetySettings': {
+      const known = (value as GenerationParams['safetySettings'])!.every(setting =>
+        Object.values(HarmCategory).includes(setting.category!) && Object.values(HarmBlockThreshold).includes(setting.threshold!));
+      return known ? null : 'Unknown safety setting.';
+    }
+    default:
+      return null;
+  }
+}
+
+// The saved values that are valid for `model`, as a generation config. A value
+// that suited the model it was saved for (say, a larger max output) is left out
+// rather than failing the request.
+export function toGenerationConfig(params: GenerationParams, model: string): GenerateContentConfig {
+  return Object.fromEntries(
+    Object.entries(params).filter(([field, value]) =>
+      value !== undefined && validateGenerationField(field as GenerationField, value, model) === null)
+  );
+}
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BackgroundJob } from '../types';
+
+// What every "tab" (a fresh copy of the module) shares: the store, Firestore and the video backend
+const shared = vi.hoisted(() => ({
+  jobs: new Map<string, BackgroundJob>(),
+  updateDoc: vi.fn(async (): Promise<void> => {}),
+  finishVideo: null as null | ((video: Blob) => void),
+}));
+
+vi.mock('../firebase', () => ({ db: {} }));
+vi.mock('firebase/firestore', () => ({ doc: () => ({}), increment: (n: number) => n, updateDoc: shared.updateDoc }));
+vi.mock('./db', () => ({
+  promisifyRequest: (request: unknown) => request,
+  withStore: async (_: string, __: string, fn: (store: unknown) => unknown) => fn({
+    get: async (id: string) => structuredClone(shared.jobs.get(id)),
+    getAll: async () => [...shared.jobs.values()].map(job => structuredClone(job)),
+    put: async (job: BackgroundJob) => void shared.jobs.set(job.id, structuredClone(job)),
+    delete: async (id: string) => void shared.jobs.delete(id),
+  }),
+}));
+vi.mock('./geminiService', () => ({
+  geminiService: {
+    startVideoGeneration: async () => 'operations/1',
+    waitForVideo: () => new Promise<Blob>(resolve => { shared.finishVideo = resolve; }),
+  },
+}));
+
+// A lock manager shared by every tab: requests for a name run one after another
+const held = new Map<string, Promise<unknown>>();
+Object.defineProperty(navigator, 'locks', {
+  configurable: true,
+  value: {
+    request: (name: string, callback: () => Promise<unknown>) => {
+      const run = (held.get(name) ?? Promise.resolve()).then(() => callback());
+      held.set(name, run.catch(() => {}));
+      return run;
+    },
+  },
+});
+Object.defineProperty(window, 'Notification', { configurable: true, value: { permission: 'denied' } });
+
+const openTab = async () => {
+  vi.resetModules();
+  const { jobManager } = await import('./jobManager');
+  return jobManager;
+};
+// A job a closed tab left running
+const savedJob = (job: Pick<BackgroundJob, 'id' | 'kind' | 'title'> & Partial<BackgroundJob>): BackgroundJob => ({
+  status: 'running',
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  ...job,
+});
+const saved = (id: string) => shared.jobs.get(id);
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+describe('jobManager across tabs', () => {
+  beforeEach(() => {
+    shared.jobs.clear();
+    shared.updateDoc.mockClear();
+    held.clear();
+  });
+
+  it("leaves another tab's running job alone and charges it once", async () => {
+    const first = await openTab();
+    first.getJobs();
+    const job = first.startVideo({ prompt: 'a cat', aspectRatio: '16:9', image: null, duration: null }, { cost: 20, user: { uid: 'u1' } });
+    await settle();
+
+    const second = await openTab();
+    second.getJobs();
+    await settle();
+    expect(saved(job.id)?.status).toBe('running');
+    expect(second.getReservedCoins('u1')).toBe(20);
+
+    shared.finishVideo!(new Blob(['video']));
+    await settle();
+    expect(saved(job.id)?.status).toBe('done');
+    expect(saved(job.id)?.charged).toBe(true);
+    expect(shared.updateDoc).toHaveBeenCalledTimes(1);
+    expect(second.getJobs().find(j => j.id === job.id)?.status).toBe('done');
+    expect(second.getReservedCoins('u1')).toBe(0);
+  });
+
+  it('picks up a video left running by a closed tab', async () => {
+    shared.jobs.set('j1', savedJob({ id: 'j1', kind: 'video', title: 'a dog', operationName: 'operations/1', cost: 20, userId: 'u1' }));
+    shared.jobs.set('j2', savedJob({ id: 'j2', kind: 'images', title: 'a bird' }));
+
+    const tab = await openTab();
+    tab.getJobs();
+    await settle();
+    expect(saved('j2')?.status).toBe('interrupted');
+
+    shared.finishVideo!(new Blob(['video']));
+    await settle();
+    expect(saved('j1')?.status).toBe('done');
+    expect(shared.updateDoc).toHaveBeenCalledTimes(1);
+  });
+
+  it('never charges a job twice', async () => {
+    shared.jobs.set('j1', savedJob({ id: 'j1', kind: 'video', title: 'a dog', operationName: 'operations/1', cost: 20, userId: 'u1', charged: true }));
+    const tab = await openTab();
+    tab.getJobs();
+    await settle();
+    shared.finishVideo!(new Blob(['video']));
+    await settle();
+    expect(saved('j1')?.status).toBe('done');
+    expect(shared.updateDoc).not.toHaveBeenCalled();
+  });
+
+  it("reports a charge that wasn't saved and leaves the job uncharged", async () => {
+    shared.jobs.set('j1', savedJob({ id: 'j1', kind: 'video', title: 'a dog', operationName: 'operations/1', cost: 20, userId: 'u1' }));
+    shared.updateDoc.mockRejectedValueOnce(new Error('offline'));
+    const tab = await openTab();
+    const charges = vi.fn();
+    tab.onCharge(charges);
+    tab.getJobs();
+    await settle();
+    shared.finishVideo!(new Blob(['video']));
+    await settle();
+    expect(saved('j1')?.status).toBe('done');
+    expect(saved('j1')?.result?.video).toBeDefined();
+    expect(saved('j1')?.charged).toBe(false);
+    expect(saved('j1')?.error).toBeDefined();
+    expect(charges).not.toHaveBeenCalled();
+  });
+
+  it('counts reservations until they are released', async () => {
+    const tab = await openTab();
+    const release = tab.reserveCoins('u1', 5);
+    expect(tab.getReservedCoins('u1')).toBe(5);
+    release();
+    release();
+    expect(tab.getReservedCoins('u1')).toBe(0);
+  });
+});
@@ -0,0 +1,355 @@
+import { doc, increment, updateDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { BackgroundJob, JobKind, JobResult } from '../types';
+import { promisifyRequest, withStore } from './db';
+import { describeError, toGeminiError } from './errors';
+import { geminiService } from './geminiService';
+import { ResponseBlockedError } from './safety';
+
+const STORE = 'jobs';
+// Finished jobs kept for the tray; older ones are deleted.
+const MAX_FINISHED_JOBS = 20;
+// Held by the tab running a job, so no other tab runs or charges it too.
+const LOCK_PREFIX = 'nexaneuron-job-';
+const CHANNEL_NAME = 'nexaneuron-jobs';
+
+// What tabs tell each other, so every tray shows the same jobs.
+type JobMessage = { job: BackgroundJob } | { deleted: string } | { cancel: string };
+
+export const JOB_KIND_LABELS: Record<JobKind, string> = {
+  video: 'Video',
+  images: 'Images',
+  videoAnalysis: 'Video analysis',
+  complexTask: 'Complex task',
+};
+
+export interface JobContext {
+  signal: AbortSignal;
+  // 0–100; kept in memory only
+  setProgress: (progress: number) => void;
+  // Saves the Veo operation so polling can resume after a reload
+  setOperation: (operationName: string) => Promise<void>;
+}
+
+export interface JobOptions {
+  // Coins taken from `user` once the job succeeds; nothing for failed or cancelled jobs
+  cost?: number;
+  user?: { uid: string; isGuest?: boolean };
+  // What to show for errors that couldn't be classified
+  fallbackError?: string;
+}
+
+export interface VideoJobInput {
+  prompt: string;
+  aspectRatio: '16:9' | '9:16';
+  image: File | null;
+  duration: number | null;
+}
+
+// The job a feature page shows: the one it started (`jobId`), none once the
+// page has cleared it (`null`), or else its latest one, so coming back to the
+// page, or reloading it, picks up where it left off.
+export function findJob(jobs: BackgroundJob[], kind: JobKind, jobId?: string | null): BackgroundJob | undefined {
+  if (jobId === null) return undefined;
+  return jobId ? jobs.find(job => job.id === jobId) : jobs.find(job => job.kind === kind);
+}
+
+function requestNotificationPermission() {
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission();
+  }
+}
+
+function showNotification(title: string, body: string) {
+  if ('Notification' in window && Notification.permission === 'granted') {
+    new Notification(title, { body });
+  }
+}
+
+// Runs generations and analyses that take too long to keep a page waiting on.
+// Jobs are kept in IndexedDB with their results, and each is run by one tab,
+// which holds a Web Lock for it. When that tab closes, another one picks the
+// job up: a video is polled again, since Veo keeps the operation; anything else
+// is marked interrupted.
+class JobManager {
+  private jobs: BackgroundJob[] = [];
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<(jobs: BackgroundJob[]) => void>();
+  private chargeListeners = new Set<(cost: number, userId: string) => void>();
+  // Coins set aside in this tab for paid work that isn't a job, by user.
+  private reservations = new Map<string, number>();
+  private loaded: Promise<void> | null = null;
+  private channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+
+  constructor() {
+    this.channel?.addEventListener('message', event => this.receive(event.data));
+  }
+
+  // Newest first. Empty until the saved jobs have loaded; subscribers hear
+  // when they have.
+  getJobs(): BackgroundJob[] {
+    this.load();
+    return this.jobs;
+  }
+
+  // `listener` gets every job whenever one changes; returns a function that
+  // unsubscribes it.
+  subscribe(listener: (jobs: BackgroundJob[]) => void): () => void {
+    this.listeners.add(listener);
+    this.load();
+    return () => this.listeners.delete(listener);
+  }
+
+  // `listener` is told about coins taken for a finished job, so the balance
+  // on screen can follow.
+  onCharge(listener: (cost: number, userId: string) => void): () => void {
+    this.chargeListeners.add(listener);
+    return () => this.chargeListeners.delete(listener);
+  }
+
+  // Coins that `userId`'s running jobs and reservations will take, to leave
+  // out of the balance before starting something else that costs coins.
+  getReservedCoins(userId: string): number {
+    const pending = this.jobs
+      .filter(job => job.status === 'running' && job.userId === userId && !job.charged)
+      .reduce((total, job) => total + (job.cost ?? 0), 0);
+    return pending + (this.reservations.get(userId) ?? 0);
+  }
+
+  // Sets `cost` aside for paid work that runs outside the job manager, such as
+  // a chat tool; returns a function that releases it.
+  reserveCoins(userId: string, cost: number): () => void {
+    this.reservations.set(userId, (this.reservations.get(userId) ?? 0) + cost);
+    this.notify();
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.reservations.set(userId, (this.reservations.get(userId) ?? 0) - cost);
+      this.notify();
+    };
+  }
+
+  start(kind: JobKind, title: string, task: (context: JobContext) => Promise<JobResult>, options: JobOptions = {}): BackgroundJob {
+    const now = Date.now();
+    const job: BackgroundJob = {
+      id: crypto.randomUUID(),
+      kind,
+      title,
+      status: 'running',
+      cost: options.cost || undefined,
+      userId: options.user?.uid,
+      isGuest: options.user?.isGuest,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs = [job, ...this.jobs];
+    this.notify();
+    this.broadcast({ job });
+    this.save(job);
+    this.run(job, task, options.fallbackError);
+    return job;
+  }
+
+  startVideo(input: VideoJobInput, options: JobOptions = {}): BackgroundJob {
+    requestNotificationPermission();
+    return this.start('video', input.prompt, async ({ signal, setOperation }) => {
+      const operationName = await geminiService.startVideoGeneration(input.prompt, input.aspectRatio, input.image, input.duration, null, signal);
+      await setOperation(operationName);
+      return { video: await geminiService.waitForVideo(operationName, signal) };
+    }, options);
+  }
+
+  // Stops waiting for the job, in whichever tab runs it; it's never charged.
+  cancel(id: string) {
+    this.controllers.get(id)?.abort();
+    this.broadcast({ cancel: id });
+  }
+
+  async dismiss(id: string): Promise<void> {
+    this.cancel(id);
+    this.jobs = this.jobs.filter(job => job.id !== id);
+    this.notify();
+    this.broadcast({ deleted: id });
+    try {
+      await withStore(STORE, 'readwrite', store => promisifyRequest(store.delete(id)));
+    } catch (error) {
+      console.error("Failed to delete a background job", error);
+    }
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= withStore(STORE, 'readonly', store => promisifyRequest<BackgroundJob[]>(store.getAll()))
+      .then(saved => {
+        // Jobs started, or heard of, before the saved ones came back are already listed
+        const known = new Set(this.jobs.map(job => job.id));
+        const added = saved.filter(job => !known.has(job.id));
+        this.jobs = [...this.jobs, ...added].sort((a, b) => b.createdAt - a.createdAt);
+        this.notify();
+        added.filter(job => job.status === 'running').forEach(job => this.adopt(job));
+      })
+      .catch(error => console.error("Failed to load background jobs", error));
+    return this.loaded;
+  }
+
+  // A running job from the store may still belong to another tab. Its lock is
+  // freed when that tab finishes the job or closes; whoever gets it next picks
+  // up the job if it is still running. Without Web Locks there is no telling,
+  // so the job is picked up straight away.
+  private adopt(job: BackgroundJob) {
+    if (!navigator.locks) {
+      this.resume(job);
+      return;
+    }
+    navigator.locks.request(LOCK_PREFIX + job.id, async () => {
+      const saved = await withStore(STORE, 'readonly', store => promisifyRequest<BackgroundJob | undefined>(store.get(job.id)));
+      if (saved?.status !== 'running') return;
+      this.replace(saved);
+      await this.resume(saved);
+    }).catch(error => console.error("Failed to pick up a background job", error));
+  }
+
+  private async resume(job: BackgroundJob) {
+    const { operationName } = job;
+    if (job.kind === 'video' && operationName) {
+      await this.execute(job, async ({ signal }) => ({ video: await geminiService.waitForVideo(operationName, signal) }));
+    } else {
+      await this.update(job.id, { status: 'interrupted', error: 'Stopped when the page was closed. Please start it again.' });
+    }
+  }
+
+  private run(job: BackgroundJob, task: (context: JobContext) => Promise<JobResult>, fallbackError?: string) {
+    if (!navigator.locks) {
+      this.execute(job, task, fallbackError);
+      return;
+    }
+    // Requested before the job is saved, so no other tab can get the lock first
+    navigator.locks.request(LOCK_PREFIX + job.id, () => this.execute(job, task, fallbackError))
+      .catch(error => console.error("Failed to run a background job", error));
+  }
+
+  private async execute(job: BackgroundJob, task: (context: JobContext) => Promise<JobResult>, fallbackError?: string) {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    const context: JobContext = {
+      signal: controller.signal,
+      setProgress: progress => this.update(job.id, { progress }, false),
+      setOperation: operationName => this.update(job.id, { operationName }),
+    };
+    try {
+      const result = await task(context);
+      // Cancelled jobs are never charged
+      if (controller.signal.aborted) throw new DOMException('The job was cancelled.', 'AbortError');
+      // Charged before it shows as done: for a moment its coins count as both
+      // reserved and spent, never as neither
+      const chargeError = await this.charge(job);
+      await this.update(job.id, { status: 'done', result, progress: 100, error: chargeError });
+      if (job.kind === 'video') showNotification('Your video is ready', job.title);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        await this.update(job.id, { status: 'cancelled' });
+        return;
+      }
+      console.error(error);
+      await this.update(job.id, error instanceof ResponseBlockedError
+        ? { status: 'failed', error: error.message, errorKind: error.kind, safety: error.feedback }
+        : { status: 'failed', error: describeError(error, fallbackError), errorKind: toGeminiError(error).kind });
+      if (job.kind === 'video') showNotification('Your video could not be made', job.title);
+    } finally {
+      this.controllers.delete(job.id);
+      this.prune();
+    }
+  }
+
+  // Listeners only hear of charges that were saved. One that wasn't leaves the
+  // job uncharged and returns the error to show with it.
+  private async charge({ id, cost, userId, isGuest }: BackgroundJob): Promise<string | undefined> {
+    if (!cost || !userId || !await this.claimCharge(id)) return;
+    try {
+      // Guests' balances only live in this browser
+      if (!isGuest) await updateDoc(doc(db, 'users', userId), { coins: increment(-cost) });
+    } catch (error) {
+      console.error("Failed to charge coins for a background job", error);
+      await this.update(id, { charged: false });
+      return "It's ready, but your coins couldn't be charged for it.";
+    }
+    this.chargeListeners.forEach(listener => listener(cost, userId));
+  }
+
+  // Marks the job charged unless some tab already has; true if this one may charge it.
+  private async claimCharge(id: string): Promise<boolean> {
+    try {
+      const claimed = await withStore(STORE, 'readwrite', async store => {
+        const saved = await promisifyRequest<BackgroundJob | undefined>(store.get(id));
+        if (saved?.charged) return false;
+        if (saved) await promisifyRequest(store.put({ ...saved, charged: true }));
+        return true;
+      });
+      if (claimed) await this.update(id, { charged: true }, false);
+      return claimed;
+    } catch (error) {
+      // Without the store no other tab can know of the job either
+      console.error("Failed to mark a background job charged", error);
+      return true;
+    }
+  }
+
+  // Progress changes too often to be worth saving; everything else is saved.
+  // Other tabs hear of every change.
+  private async update(id: string, changes: Partial<BackgroundJob>, persist = true) {
+    const job = this.jobs.find(j => j.id === id);
+    // Dismissed while it was running
+    if (!job) return;
+    const updated = { ...job, ...changes, updatedAt: Date.now() };
+    this.jobs = this.jobs.map(j => (j.id === id ? updated : j));
+    this.notify();
+    this.broadcast({ job: updated });
+    if (persist) await this.save(updated);
+  }
+
+  private replace(job: BackgroundJob) {
+    const others = this.jobs.filter(j => j.id !== job.id);
+    this.jobs = [...others, job].sort((a, b) => b.createdAt - a.createdAt);
+    this.notify();
+  }
+
+  private receive(message: JobMessage) {
+    if ('cancel' in message) {
+      this.controllers.get(message.cancel)?.abort();
+    } else if ('deleted' in message) {
+      this.jobs = this.jobs.filter(job => job.id !== message.deleted);
+      this.notify();
+    } else {
+      this.replace(message.job);
+    }
+  }
+
+  private broadcast(message: JobMessage) {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.error("Failed to tell other tabs about a background job", error);
+    }
+  }
+
+  private async save(job: BackgroundJob) {
+    try {
+      await withStore(STORE, 'readwrite', store => promisifyRequest(store.put(job)));
+    } catch (error) {
+      console.error("Failed to save a background job", error);
+    }
+  }
+
+  private prune() {
+    this.jobs
+      .filter(job => job.status !== 'running')
+      .slice(MAX_FINISHED_JOBS)
+      .forEach(job => this.dismiss(job.id));
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.jobs));
+  }
+}
+
+export const jobManager = new JobManager();
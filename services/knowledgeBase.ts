@@ -0,0 +1,147 @@
+import { Citation, KnowledgeChunk, KnowledgeDocument } from '../types';
+import { geminiService } from './geminiService';
+import { getAttachmentKind } from './attachments';
+import { promisifyRequest, withStore } from './db';
+
+const DOCUMENTS_STORE = 'knowledgeDocuments';
+const CHUNKS_STORE = 'knowledgeChunks';
+
+// Chunks are cut at paragraph breaks where possible, and overlap a little so a
+// passage that straddles two chunks is still found whole in one of them.
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+const DEFAULT_RESULT_COUNT = 5;
+// Below this similarity a chunk is unrelated to the question.
+const MIN_SCORE = 0.3;
+
+export const KNOWLEDGE_ACCEPT = 'application/pdf,.pdf,text/*,.md,.markdown,.txt';
+
+export interface KnowledgeSearchResult {
+  chunk: KnowledgeChunk;
+  document: KnowledgeDocument;
+  score: number;
+}
+
+export function chunkText(text: string, size: number = CHUNK_SIZE, overlap: number = CHUNK_OVERLAP): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < normalized.length) {
+    let end = Math.min(start + size, normalized.length);
+    if (end < normalized.length) {
+      // Prefer a paragraph break, then a sentence end, in the second half of the chunk
+      const window = normalized.slice(start + size / 2, end);
+      const paragraph = window.lastIndexOf('\n\n');
+      const sentence = window.search(/[.!?]\s[^.!?]*$/);
+      if (paragraph >= 0) end = start + size / 2 + paragraph;
+      else if (sentence >= 0) end = start + size / 2 + sentence + 1;
+    }
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+  return chunks;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function toCitation({ chunk, document }: KnowledgeSearchResult): Citation {
+  return { documentId: document.id, documentName: document.name, chunkId: chunk.id, chunkIndex: chunk.index, text: chunk.text };
+}
+
+// What the model is sent instead of the bare question when a collection is in use.
+export function buildGroundedPrompt(question: string, citations: Citation[]): string {
+  if (citations.length === 0) return question;
+  const passages = citations.map((citation, i) => `[${i + 1}] (${citation.documentName})\n${citation.text}`).join('\n\n');
+  return `Answer using the numbered passages below from the user's documents. Cite the passages you use with their numbers in square brackets, like [1] or [2][3]. If they don't contain the answer, say so before answering from general knowledge.\n\n${passages}\n\nQuestion: ${question}`;
+}
+
+const chunkRange = (documentId: string) => IDBKeyRange.bound(`${documentId}:`, `${documentId}:\uffff`);
+
+// Documents and their embedded chunks are kept in IndexedDB on this device;
+// only the text being transcribed or embedded is sent to the model.
+class KnowledgeBase {
+  async listDocuments(): Promise<KnowledgeDocument[]> {
+    const documents = await withStore(DOCUMENTS_STORE, 'readonly', store => promisifyRequest<KnowledgeDocument[]>(store.getAll()));
+    return documents.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async listCollections(): Promise<string[]> {
+    const documents = await this.listDocuments();
+    return [...new Set(documents.map(document => document.collection))].sort();
+  }
+
+  async addDocument(file: File, collection: string, onProgress: (message: string) => void = () => {}, signal?: AbortSignal): Promise<KnowledgeDocument> {
+    const kind = getAttachmentKind(file);
+    if (kind !== 'pdf' && kind !== 'text') {
+      throw new Error(`${file.name}: only PDFs, markdown and text files can be added.`);
+    }
+    onProgress(`Reading ${file.name}…`);
+    const text = kind === 'pdf' ? await geminiService.extractDocumentText(file, signal) : await file.text();
+    const pieces = chunkText(text);
+    if (pieces.length === 0) throw new Error(`${file.name} has no text to index.`);
+
+    onProgress(`Embedding ${pieces.length} passage${pieces.length === 1 ? '' : 's'} from ${file.name}…`);
+    const embeddings = await geminiService.embedTexts(pieces, 'RETRIEVAL_DOCUMENT', signal);
+    const document: KnowledgeDocument = {
+      id: crypto.randomUUID(),
+      name: file.name,
+      collection,
+      mimeType: file.type || (kind === 'pdf' ? 'application/pdf' : 'text/plain'),
+      size: file.size,
+      chunkCount: pieces.length,
+      createdAt: Date.now(),
+    };
+    const chunks: KnowledgeChunk[] = pieces.map((piece, index) => ({
+      id: `${document.id}:${String(index).padStart(5, '0')}`,
+      documentId: document.id,
+      collection,
+      index,
+      text: piece,
+      embedding: embeddings[index],
+    }));
+
+    await withStore(CHUNKS_STORE, 'readwrite', store => Promise.all(chunks.map(chunk => promisifyRequest(store.put(chunk)))));
+    await withStore(DOCUMENTS_STORE, 'readwrite', store => promisifyRequest(store.put(document)));
+    return document;
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    await withStore(DOCUMENTS_STORE, 'readwrite', store => promisifyRequest(store.delete(id)));
+    await withStore(CHUNKS_STORE, 'readwrite', store => promisifyRequest(store.delete(chunkRange(id))));
+  }
+
+  async getChunks(documentId: string): Promise<KnowledgeChunk[]> {
+    return withStore(CHUNKS_STORE, 'readonly', store => promisifyRequest<KnowledgeChunk[]>(store.getAll(chunkRange(documentId))));
+  }
+
+  // Brute-force cosine similarity over the collection, which is fast enough for
+  // the few thousand chunks a browser-held collection reaches.
+  async search(query: string, collection: string, limit: number = DEFAULT_RESULT_COUNT): Promise<KnowledgeSearchResult[]> {
+    const [[queryEmbedding], documents, chunks] = await Promise.all([
+      geminiService.embedTexts([query], 'RETRIEVAL_QUERY'),
+      this.listDocuments(),
+      withStore(CHUNKS_STORE, 'readonly', store => promisifyRequest<KnowledgeChunk[]>(store.getAll())),
+    ]);
+    const documentsById = new Map(documents.map(document => [document.id, document]));
+    return chunks
+      .filter(chunk => chunk.collection === collection && documentsById.has(chunk.documentId))
+      .map(chunk => ({ chunk, document: documentsById.get(chunk.documentId)!, score: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+      .filter(result => result.score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+export const knowledgeBase = new KnowledgeBase();
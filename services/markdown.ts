@@ -0,0 +1,104 @@
+import { Marked, TokenizerAndRendererExtension, Tokens } from 'marked';
+import katex from 'katex';
+import hljs from 'highlight.js/lib/common';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+import { sanitizeHtml } from './sanitizeHtml';
+
+// Math and highlighted code are rendered by KaTeX and highlight.js, whose
+// output is escaped but uses classes, inline styles and SVG that the sanitizer
+// rejects. They are swapped out for placeholders while the rest is sanitized.
+const PLACEHOLDER = /\uE000(\d+)\uE001/g;
+let trusted: string[] = [];
+
+const stash = (html: string) => `\uE000${trusted.push(html) - 1}\uE001`;
+
+const renderMath = (tex: string, displayMode: boolean) =>
+  stash(katex.renderToString(tex.trim(), { displayMode, throwOnError: false, output: 'html' }));
+
+interface MathToken extends Tokens.Generic {
+  text: string;
+  displayMode: boolean;
+}
+
+const blockMath: TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: src => src.match(/^ {0,3}(?:\$\$|\\\[)/m)?.index,
+  tokenizer(src) {
+    const match = src.match(/^ {0,3}(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\])[ \t]*(?:\n|$)/);
+    if (match) return { type: 'blockMath', raw: match[0], text: match[1] ?? match[2], displayMode: true };
+  },
+  renderer: token => `${renderMath((token as MathToken).text, true)}\n`,
+};
+
+// Single dollars only count when they hug their content ("$x^2$", not "$5 and $10").
+const inlineMath: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: src => src.match(/\$|\\\(/)?.index,
+  tokenizer(src) {
+    const match = src.match(/^\$\$([\s\S]+?)\$\$/)
+      ?? src.match(/^\\\(([\s\S]+?)\\\)/)
+      ?? src.match(/^\$(?![\s$])((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/);
+    if (match) return { type: 'inlineMath', raw: match[0], text: match[1], displayMode: match[0].startsWith('$$') };
+  },
+  renderer: token => renderMath((token as MathToken).text, (token as MathToken).displayMode),
+};
+
+const markdown = new Marked({
+  breaks: true,
+  gfm: true,
+  async: false,
+  extensions: [blockMath, inlineMath],
+  renderer: {
+    code({ text, lang }) {
+      const language = lang?.match(/^[\w+#-]+/)?.[0].toLowerCase() ?? '';
+      const highlighted = language && hljs.getLanguage(language)
+        ? hljs.highlight(text, { language, ignoreIllegals: true }).value
+        : hljs.highlightAuto(text).value;
+      return stash(`<pre><code class="hljs${language ? ` language-${language}` : ''}">${highlighted}</code></pre>`) + '\n';
+    },
+  },
+});
+
+// Puts the stashed HTML back where its placeholders ended up in text. Ones that
+// landed in an attribute (an image's alt text, say) are dropped: the stash is
+// markup, and spliced into an attribute value it would break out of it.
+function restoreStashed(html: string, stashed: string[]): string {
+  if (!html.includes('\uE000')) return html;
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT);
+  const texts: Text[] = [];
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      if ((node as Text).data.includes('\uE000')) texts.push(node as Text);
+      continue;
+    }
+    for (const { name, value } of Array.from((node as Element).attributes)) {
+      if (/[\uE000\uE001]/.test(value)) {
+        (node as Element).setAttribute(name, value.replace(PLACEHOLDER, '').replace(/[\uE000\uE001]/g, ''));
+      }
+    }
+  }
+  for (const text of texts) {
+    // split() with a capture group puts the stash indexes at the odd positions
+    const nodes = text.data.split(/\uE000(\d+)\uE001/).map((segment, i) => {
+      if (i % 2 === 0) return document.createTextNode(segment);
+      const fragment = document.createElement('template');
+      fragment.innerHTML = stashed[Number(segment)] ?? '';
+      return fragment.content;
+    });
+    text.replaceWith(...nodes);
+  }
+  return template.innerHTML;
+}
+
+// Markdown to safe HTML, with LaTeX ($…$, $$…$$, \(…\), \[…\]) and highlighted code.
+export function renderMarkdown(text: string): string {
+  trusted = [];
+  // Placeholder characters from the input would otherwise point into the stash
+  const html = markdown.parse(text.replace(/[\uE000\uE001]/g, '')) as string;
+  return restoreStashed(sanitizeHtml(html), trusted);
+}
@@ -0,0 +1,75 @@
+import { collection, deleteDoc, doc, getDoc, getDocs, setDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { Memory } from '../types';
+import { UserProfile } from '../App';
+
+const GUEST_MEMORIES_KEY = 'nexaneuron-memories';
+const GUEST_MEMORY_ENABLED_KEY = 'nexaneuron-memory-enabled';
+
+const memoriesCollection = (uid: string) => collection(db, 'users', uid, 'memories');
+
+export function createMemory(text: string): Memory {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), text: text.trim(), createdAt: now, updatedAt: now };
+}
+
+// Appended to the persona's system instruction when a chat starts.
+export function buildMemoryInstruction(memories: Memory[]): string {
+  if (memories.length === 0) return '';
+  return `\n\nThe user has asked you to remember these facts about them. Use them when they are relevant, without pointing out that you remembered them:\n${memories.map(memory => `- ${memory.text}`).join('\n')}`;
+}
+
+// Memory is opt-in. Signed-in users keep their memories in Firestore under
+// their uid (and the opt-in flag on their user document); guests keep both in
+// localStorage.
+class MemoryStore {
+  async isEnabled(user: UserProfile): Promise<boolean> {
+    if (user.isGuest) return localStorage.getItem(GUEST_MEMORY_ENABLED_KEY) === 'true';
+    const snapshot = await getDoc(doc(db, 'users', user.uid));
+    return snapshot.data()?.memoryEnabled === true;
+  }
+
+  async setEnabled(user: UserProfile, enabled: boolean): Promise<void> {
+    if (user.isGuest) {
+      localStorage.setItem(GUEST_MEMORY_ENABLED_KEY, String(enabled));
+    } else {
+      await updateDoc(doc(db, 'users', user.uid), { memoryEnabled: enabled });
+    }
+  }
+
+  async list(user: UserProfile): Promise<Memory[]> {
+    const memories = user.isGuest
+      ? this.readGuestMemories()
+      : (await getDocs(memoriesCollection(user.uid))).docs.map(snapshot => snapshot.data() as Memory);
+    return memories.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async save(user: UserProfile, memory: Memory): Promise<void> {
+    if (user.isGuest) {
+      const others = this.readGuestMemories().filter(m => m.id !== memory.id);
+      localStorage.setItem(GUEST_MEMORIES_KEY, JSON.stringify([...others, memory]));
+    } else {
+      await setDoc(doc(memoriesCollection(user.uid), memory.id), memory);
+    }
+  }
+
+  async delete(user: UserProfile, id: string): Promise<void> {
+    if (user.isGuest) {
+      localStorage.setItem(GUEST_MEMORIES_KEY, JSON.stringify(this.readGuestMemories().filter(m => m.id !== id)));
+    } else {
+      await deleteDoc(doc(memoriesCollection(user.uid), id));
+    }
+  }
+
+  private readGuestMemories(): Memory[] {
+    try {
+      const saved = JSON.parse(localStorage.getItem(GUEST_MEMORIES_KEY) ?? '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch (error) {
+      console.error("Failed to parse memories from localStorage", error);
+      return [];
+    }
+  }
+}
+
+export const memoryStore = new MemoryStore();
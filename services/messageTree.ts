@@ -0,0 +1,41 @@
+import { ChatMessage } from '../types';
+
+// A conversation's messages form a tree: editing a prompt or regenerating a reply
+// adds a sibling instead of overwriting, and the screen shows one root-to-leaf path.
+
+// Chats saved before branching existed are plain lists; chain them into one branch.
+export function normalizeTree(messages: ChatMessage[]): ChatMessage[] {
+  if (messages.every(msg => msg.id)) return messages;
+  let parentId: string | null = null;
+  return messages.map(msg => {
+    const node: ChatMessage = { ...msg, id: crypto.randomUUID(), parentId };
+    parentId = node.id!;
+    return node;
+  });
+}
+
+// In creation order, so the last child is the newest branch.
+export function getChildren(messages: ChatMessage[], parentId: string | null): ChatMessage[] {
+  return messages.filter(msg => (msg.parentId ?? null) === parentId);
+}
+
+// Follows the newest branch down from `id` (or from the top when null).
+export function getLatestLeaf(messages: ChatMessage[], id: string | null): string | null {
+  let current = id;
+  while (true) {
+    const children = getChildren(messages, current);
+    if (children.length === 0) return current;
+    current = children[children.length - 1].id!;
+  }
+}
+
+export function getPath(messages: ChatMessage[], leafId: string | null): ChatMessage[] {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const path: ChatMessage[] = [];
+  let node = leafId ? byId.get(leafId) : undefined;
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return path;
+}
@@ -0,0 +1,126 @@
+import { toGeminiError } from './errors';
+
+export type ModelCapability =
+  | 'text'
+  | 'vision'
+  | 'tools'
+  | 'search'
+  | 'thinking'
+  | 'speech'
+  | 'live'
+  | 'image-generation'
+  | 'video-generation'
+  | 'reference-images'
+  | 'embedding';
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  capabilities: ModelCapability[];
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+  preview?: boolean;
+  // Still listed so saved choices can be moved to `replacement`
+  deprecated?: boolean;
+  replacement?: string;
+}
+
+export const MODELS: ModelInfo[] = [
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', capabilities: ['text', 'vision', 'tools', 'search', 'thinking'], inputTokenLimit: 1_048_576, outputTokenLimit: 65_536 },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', capabilities: ['text', 'vision', 'tools', 'search', 'thinking'], inputTokenLimit: 1_048_576, outputTokenLimit: 65_536 },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite', capabilities: ['text', 'vision', 'tools', 'search', 'thinking'], inputTokenLimit: 1_048_576, outputTokenLimit: 65_536 },
+  { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash', capabilities: ['text', 'vision', 'tools', 'search'], inputTokenLimit: 1_048_576, outputTokenLimit: 8_192, deprecated: true, replacement: 'gemini-2.5-flash' },
+  { id: 'gemini-2.5-flash-preview-tts', label: 'Gemini 2.5 Flash TTS', capabilities: ['speech'], inputTokenLimit: 8_192, outputTokenLimit: 16_384, preview: true },
+  { id: 'gemini-2.5-pro-preview-tts', label: 'Gemini 2.5 Pro TTS', capabilities: ['speech'], inputTokenLimit: 8_192, outputTokenLimit: 16_384, preview: true },
+  { id: 'gemini-2.5-flash-native-audio-preview-09-2025', label: 'Gemini 2.5 Flash Native Audio', capabilities: ['live'], inputTokenLimit: 131_072, outputTokenLimit: 8_192, preview: true },
+  { id: 'imagen-4.0-generate-001', label: 'Imagen 4', capabilities: ['image-generation'], inputTokenLimit: 480 },
+  { id: 'imagen-4.0-fast-generate-001', label: 'Imagen 4 Fast', capabilities: ['image-generation'], inputTokenLimit: 480 },
+  { id: 'imagen-4.0-ultra-generate-001', label: 'Imagen 4 Ultra', capabilities: ['image-generation'], inputTokenLimit: 480 },
+  { id: 'veo-3.1-generate-preview', label: 'Veo 3.1', capabilities: ['video-generation', 'reference-images'], inputTokenLimit: 1_024, preview: true },
+  { id: 'veo-3.1-fast-generate-preview', label: 'Veo 3.1 Fast', capabilities: ['video-generation'], inputTokenLimit: 1_024, preview: true },
+  { id: 'gemini-embedding-001', label: 'Gemini Embedding', capabilities: ['embedding'], inputTokenLimit: 2_048 },
+];
+
+export type ModelTask =
+  | 'chat'
+  | 'utility'
+  | 'search'
+  | 'vision'
+  | 'videoAnalysis'
+  | 'complexTask'
+  | 'imageGeneration'
+  | 'videoGeneration'
+  | 'speech'
+  | 'live';
+
+export const MODEL_TASKS: Record<ModelTask, { label: string; description: string; capability: ModelCapability; defaultModel: string }> = {
+  chat: { label: 'Chat', description: 'Built-in personas, and custom ones without a model of their own', capability: 'tools', defaultModel: 'gemini-2.5-flash' },
+  utility: { label: 'Chat helpers', description: 'Titles, summaries and translations', capability: 'text', defaultModel: 'gemini-2.5-flash' },
+  search: { label: 'Grounded search', description: 'Answers with Google Search and Maps', capability: 'search', defaultModel: 'gemini-2.5-flash' },
+  vision: { label: 'Image and document analysis', description: 'Image analysis and reading PDFs into the knowledge base', capability: 'vision', defaultModel: 'gemini-2.5-flash' },
+  videoAnalysis: { label: 'Video analysis', description: 'Questions about video frames', capability: 'vision', defaultModel: 'gemini-2.5-pro' },
+  complexTask: { label: 'Complex task solver', description: 'Long reasoning with a large thinking budget', capability: 'thinking', defaultModel: 'gemini-2.5-pro' },
+  imageGeneration: { label: 'Image generation', description: 'Images from prompts, in the chat and the image page', capability: 'image-generation', defaultModel: 'imagen-4.0-generate-001' },
+  videoGeneration: { label: 'Video generation', description: 'Videos with reference images always use a model that supports them', capability: 'video-generation', defaultModel: 'veo-3.1-fast-generate-preview' },
+  speech: { label: 'Text to speech', description: 'Read-aloud in the chat and the speech page', capability: 'speech', defaultModel: 'gemini-2.5-flash-preview-tts' },
+  live: { label: 'Live conversation', description: 'Real-time voice', capability: 'live', defaultModel: 'gemini-2.5-flash-native-audio-preview-09-2025' },
+};
+
+export const EMBEDDING_MODEL = 'gemini-embedding-001';
+// For videos with reference images when the chosen video model can't take them
+export const REFERENCE_VIDEO_MODEL = 'veo-3.1-generate-preview';
+
+const MODEL_CHOICES_KEY = 'nexaneuron-models';
+
+// Models the API said don't exist during this session
+const unavailableModels = new Set<string>();
+
+export const findModel = (id: string) => MODELS.find(model => model.id === id);
+
+export const supports = (id: string, capability: ModelCapability) =>
+  findModel(id)?.capabilities.includes(capability) ?? false;
+
+// Models that can be picked for `task`, current ones first.
+export function getModelsFor(task: ModelTask): ModelInfo[] {
+  return MODELS
+    .filter(model => model.capabilities.includes(MODEL_TASKS[task].capability) && !model.deprecated)
+    .sort((a, b) => Number(!!a.preview) - Number(!!b.preview));
+}
+
+export function getModelChoices(): Partial<Record<ModelTask, string>> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(MODEL_CHOICES_KEY) ?? '{}');
+    return saved && typeof saved === 'object' ? saved : {};
+  } catch (error) {
+    console.error("Failed to parse model choices from localStorage", error);
+    return {};
+  }
+}
+
+export function setModelChoice(task: ModelTask, id: string | null) {
+  const choices = getModelChoices();
+  if (id) choices[task] = id;
+  else delete choices[task];
+  localStorage.setItem(MODEL_CHOICES_KEY, JSON.stringify(choices));
+}
+
+// The model to call for `task`: `requested` (a persona's model) or the user's
+// choice, moved to its replacement when deprecated, and the task's default when
+// it is unavailable or can't do the task. Ids missing from MODELS are passed
+// through, since a persona may name a newer model than this list knows.
+export function resolveModel(task: ModelTask, requested?: string): string {
+  const { capability, defaultModel } = MODEL_TASKS[task];
+  let id = requested || getModelChoices()[task] || defaultModel;
+  const info = findModel(id);
+  if (info?.deprecated && info.replacement) id = info.replacement;
+  if (unavailableModels.has(id) || (findModel(id) && !supports(id, capability))) return defaultModel;
+  return id;
+}
+
+export function isModelNotFound(error: unknown): boolean {
+  return toGeminiError(error).kind === 'notFound';
+}
+
+export function markModelUnavailable(id: string) {
+  unavailableModels.add(id);
+}
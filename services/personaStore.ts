@@ -0,0 +1,111 @@
+import { collection, deleteDoc, doc, getDocs, setDoc } from 'firebase/firestore';
+import { HarmBlockThreshold, HarmCategory, SafetySetting } from '@google/genai';
+import { db } from '../firebase';
+import { Persona } from '../types';
+import { UserProfile } from '../App';
+import { BUILT_IN_PERSONAS } from '../constants';
+
+const GUEST_PERSONAS_KEY = 'nexaneuron-personas';
+const EXPORT_VERSION = 1;
+
+const personasCollection = (uid: string) => collection(db, 'users', uid, 'personas');
+
+// Firestore rejects fields that are set to undefined.
+const withoutUndefined = (persona: Persona): Persona => JSON.parse(JSON.stringify(persona));
+
+const byName = (a: Persona, b: Persona) => a.name.localeCompare(b.name);
+
+export function createPersona(from?: Persona): Persona {
+  const { builtIn, ...base } = from ?? BUILT_IN_PERSONAS[0];
+  return {
+    ...base,
+    id: crypto.randomUUID(),
+    name: from ? `${from.name} (copy)` : 'New persona',
+    description: from ? base.description : '',
+  };
+}
+
+// Custom personas live in Firestore for signed-in users and in localStorage for
+// guests. Built-in personas are never stored.
+class PersonaStore {
+  async list(user: UserProfile): Promise<Persona[]> {
+    const custom = user.isGuest
+      ? this.readGuestPersonas()
+      : (await getDocs(personasCollection(user.uid))).docs.map(snapshot => snapshot.data() as Persona);
+    return [...BUILT_IN_PERSONAS, ...custom.sort(byName)];
+  }
+
+  async save(user: UserProfile, persona: Persona): Promise<void> {
+    if (persona.builtIn) throw new Error('Built-in personas cannot be changed. Duplicate it instead.');
+    if (user.isGuest) {
+      const others = this.readGuestPersonas().filter(p => p.id !== persona.id);
+      localStorage.setItem(GUEST_PERSONAS_KEY, JSON.stringify([...others, persona]));
+    } else {
+      await setDoc(doc(personasCollection(user.uid), persona.id), withoutUndefined(persona));
+    }
+  }
+
+  async delete(user: UserProfile, id: string): Promise<void> {
+    if (user.isGuest) {
+      localStorage.setItem(GUEST_PERSONAS_KEY, JSON.stringify(this.readGuestPersonas().filter(p => p.id !== id)));
+    } else {
+      await deleteDoc(doc(personasCollection(user.uid), id));
+    }
+  }
+
+  private readGuestPersonas(): Persona[] {
+    try {
+      const saved = JSON.parse(localStorage.getItem(GUEST_PERSONAS_KEY) ?? '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch (error) {
+      console.error("Failed to parse personas from localStorage", error);
+      return [];
+    }
+  }
+}
+
+export const personaStore = new PersonaStore();
+
+export function serializePersonas(personas: Persona[]): string {
+  const exported = personas.map(({ id, builtIn, ...persona }) => persona);
+  return JSON.stringify({ version: EXPORT_VERSION, personas: exported }, null, 2);
+}
+
+const isKnown = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  Object.values(values).includes(value as T);
+
+const clamp = (value: unknown, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), max) : undefined;
+
+// Accepts what serializePersonas writes, a bare array, or a single persona.
+// Imported personas always get fresh ids so they never overwrite existing ones.
+export function parsePersonas(json: string): Persona[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const items: any[] = Array.isArray(data) ? data : Array.isArray(data?.personas) ? data.personas : [data];
+  const personas = items.map((item, i): Persona => {
+    if (typeof item?.name !== 'string' || !item.name.trim() || typeof item.systemInstruction !== 'string') {
+      throw new Error(`Persona ${i + 1} needs a name and a system instruction.`);
+    }
+    const safetySettings: SafetySetting[] | undefined = Array.isArray(item.safetySettings)
+      ? item.safetySettings.filter((s: any) => isKnown(HarmCategory, s?.category) && isKnown(HarmBlockThreshold, s?.threshold))
+      : undefined;
+    return withoutUndefined({
+      id: crypto.randomUUID(),
+      name: item.name.trim(),
+      description: typeof item.description === 'string' ? item.description : '',
+      systemInstruction: item.systemInstruction,
+      model: typeof item.model === 'string' ? item.model : '',
+      temperature: clamp(item.temperature, 2),
+      topP: clamp(item.topP, 1),
+      safetySettings: safetySettings?.length ? safetySettings : undefined,
+      greeting: typeof item.greeting === 'string' && item.greeting ? item.greeting : undefined,
+    });
+  });
+  if (personas.length === 0) throw new Error('The file does not contain any personas.');
+  return personas;
+}
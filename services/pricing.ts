@@ -0,0 +1,38 @@
+import { TokenUsage } from '../types';
+import { MODEL_PRICING } from '../constants';
+
+type ModelPrice = { input: number; output: number };
+
+let pricing: Record<string, ModelPrice> | null = null;
+
+// MODEL_PRICING from .env.local is merged over the built-in table.
+function getPricing(): Record<string, ModelPrice> {
+  if (pricing) return pricing;
+  let overrides: Record<string, ModelPrice> = {};
+  if (process.env.MODEL_PRICING) {
+    try {
+      overrides = JSON.parse(process.env.MODEL_PRICING);
+    } catch (error) {
+      console.error("MODEL_PRICING is not valid JSON, using the built-in prices", error);
+    }
+  }
+  pricing = { ...MODEL_PRICING, ...overrides };
+  return pricing;
+}
+
+// Undefined for models that have no price in the table.
+export function estimateCost(usage: Pick<TokenUsage, 'model' | 'promptTokens' | 'candidatesTokens' | 'thinkingTokens'>): number | undefined {
+  const price = getPricing()[usage.model];
+  if (!price) return undefined;
+  return (usage.promptTokens * price.input + (usage.candidatesTokens + usage.thinkingTokens) * price.output) / 1_000_000;
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  if (cost < 0.0001) return '<$0.0001';
+  return cost < 0.01 ? `$${cost.toPrecision(2)}` : `$${cost.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens.toLocaleString();
+}
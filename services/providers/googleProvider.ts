@@ -0,0 +1,63 @@
+import {
+  GoogleGenAI,
+  CountTokensParameters,
+  CreateChatParameters,
+  EmbedContentParameters,
+  GenerateContentParameters,
+  GenerateImagesParameters,
+  GenerateVideosOperation,
+  GenerateVideosParameters,
+  LiveConnectParameters,
+} from '@google/genai';
+import { GenAiProvider } from './types';
+
+export class GoogleProvider implements GenAiProvider {
+  readonly name = 'google';
+
+  // A new client per call so a key picked through the AI Studio selector (used
+  // by Veo) is seen without reloading the page.
+  private getAi() {
+    return new GoogleGenAI({ apiKey: process.env.API_KEY! });
+  }
+
+  createChat(params: CreateChatParameters) {
+    return this.getAi().chats.create(params);
+  }
+
+  generateContent(params: GenerateContentParameters) {
+    return this.getAi().models.generateContent(params);
+  }
+
+  generateContentStream(params: GenerateContentParameters) {
+    return this.getAi().models.generateContentStream(params);
+  }
+
+  countTokens(params: CountTokensParameters) {
+    return this.getAi().models.countTokens(params);
+  }
+
+  embedContent(params: EmbedContentParameters) {
+    return this.getAi().models.embedContent(params);
+  }
+
+  generateImages(params: GenerateImagesParameters) {
+    return this.getAi().models.generateImages(params);
+  }
+
+  generateVideos(params: GenerateVideosParameters) {
+    return this.getAi().models.generateVideos(params);
+  }
+
+  getVideosOperation(operation: GenerateVideosOperation, signal?: AbortSignal) {
+    return this.getAi().operations.getVideosOperation({ operation, config: { abortSignal: signal } });
+  }
+
+  async downloadVideo(uri: string, signal?: AbortSignal): Promise<Blob> {
+    const response = await fetch(`${uri}&key=${process.env.API_KEY}`, { signal });
+    return response.blob();
+  }
+
+  connectLive(params: LiveConnectParameters) {
+    return this.getAi().live.connect(params);
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  Content,
+  CreateChatParameters,
+  GenerateContentResponse,
+  Part,
+  SendMessageParameters,
+  createUserContent,
+} from '@google/genai';
+import { ChatSession, GenAiProvider } from './types';
+
+type Backend = Pick<GenAiProvider, 'generateContent' | 'generateContentStream'>;
+
+// A client-side chat that replays the whole history through generateContent on
+// every turn, mirroring what the SDK's Chat does internally.
+export class HistoryChat implements ChatSession {
+  private history: Content[];
+
+  constructor(private readonly backend: Backend, private readonly params: CreateChatParameters) {
+    this.history = [...(params.history ?? [])];
+  }
+
+  async sendMessage(params: SendMessageParameters): Promise<GenerateContentResponse> {
+    const userContent = createUserContent(params.message);
+    const response = await this.backend.generateContent({
+      model: this.params.model,
+      contents: [...this.history, userContent],
+      config: params.config ?? this.params.config,
+    });
+    const modelContent = response.candidates?.[0]?.content;
+    if (modelContent) {
+      this.history.push(userContent, { role: 'model', parts: modelContent.parts ?? [] });
+    }
+    return response;
+  }
+
+  // Like the SDK, the turn is only recorded once the stream has been read to the end.
+  async sendMessageStream(params: SendMessageParameters): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const userContent = createUserContent(params.message);
+    const stream = await this.backend.generateContentStream({
+      model: this.params.model,
+      contents: [...this.history, userContent],
+      config: params.config ?? this.params.config,
+    });
+    const history = this.history;
+    return (async function* () {
+      const parts: Part[] = [];
+      for await (const chunk of stream) {
+        parts.push(...(chunk.candidates?.[0]?.content?.parts ?? []));
+        yield chunk;
+      }
+      history.push(userContent, { role: 'model', parts });
+    })();
+  }
+
+  getHistory(): Content[] {
+    return [...this.history];
+  }
+}
@@ -0,0 +1,412 @@
+import {
+  ContentListUnion,
+  CountTokensParameters,
+  CountTokensResponse,
+  CreateChatParameters,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  FinishReason,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateImagesParameters,
+  GenerateImagesResponse,
+  GenerateVideosOperation,
+  GenerateVideosParameters,
+  LiveCallbacks,
+  LiveConnectParameters,
+  LiveSendRealtimeInputParameters,
+  LiveServerMessage,
+  Modality,
+  Part,
+  PartUnion,
+  Schema,
+  Type,
+} from '@google/genai';
+import { encode } from '../utils';
+import { waitFor } from '../errors';
+import { HistoryChat } from './historyChat';
+import { GenAiProvider, LiveSession } from './types';
+
+const MOCK_LATENCY_MS = 600;
+const TTS_SAMPLE_RATE = 24000;
+const LIVE_INPUT_SAMPLE_RATE = 16000;
+const LIVE_REPLY_EVERY_SECONDS = 4;
+const TEST_PATTERN_DURATION_MS = 3000;
+const STREAM_CHUNK_DELAY_MS = 40;
+// Roughly what the real tokenizer gives for English text, and the flat rate it
+// charges per image.
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 258;
+const EMBEDDING_DIMENSIONS = 256;
+
+// FNV-1a, so the same prompt always produces the same canned output.
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function excerpt(text: string, length: number = 80): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length)}…` : singleLine;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+}
+
+// Returns the parts of the last turn in the request, whichever shape it came in.
+function lastTurnParts(contents: ContentListUnion): PartUnion[] {
+  const items = (Array.isArray(contents) ? contents : [contents]) as unknown[];
+  const last = items[items.length - 1];
+  if (last && typeof last === 'object' && 'parts' in last) {
+    return (last as { parts?: Part[] }).parts ?? [];
+  }
+  return items as PartUnion[];
+}
+
+// Every part in the request, across all turns.
+function allParts(contents: ContentListUnion): PartUnion[] {
+  const items = (Array.isArray(contents) ? contents : [contents]) as unknown[];
+  return items.flatMap(item =>
+    item && typeof item === 'object' && 'parts' in item
+      ? (item as { parts?: Part[] }).parts ?? []
+      : [item as PartUnion]);
+}
+
+function estimateTokens(parts: PartUnion[]): number {
+  return parts.reduce((total, part) => {
+    if (typeof part === 'string') return total + Math.ceil(part.length / CHARS_PER_TOKEN);
+    if (part.inlineData) return total + TOKENS_PER_IMAGE;
+    return total + Math.ceil((part.text ?? '').length / CHARS_PER_TOKEN);
+  }, 0);
+}
+
+// Hashed bag of words, so texts sharing words still come out similar offline.
+function mockEmbedding(text: string, dimensions: number): number[] {
+  const values = new Array<number>(dimensions).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    values[hashString(word) % dimensions] += 1;
+  }
+  return values;
+}
+
+function cannedText(prompt: string, attachments: number): string {
+  const hash = hashString(prompt);
+  const lines = [
+    `This is a **mock response** from the offline provider (#${hash % 1000}).`,
+    '',
+    prompt ? `You asked: "${excerpt(prompt)}"` : 'You sent a message without any text.',
+    '',
+    `- Attachments received: ${attachments}`,
+    `- Words in your prompt: ${prompt.split(/\s+/).filter(Boolean).length}`,
+    '- No network request was made.',
+  ];
+  return lines.join('\n');
+}
+
+function sampleFromSchema(schema: Schema | undefined, key: string = 'value'): unknown {
+  if (!schema) return null;
+  if (schema.enum?.length) return schema.enum[0];
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, property]) => [name, sampleFromSchema(property, name)])
+      );
+    case Type.ARRAY:
+      return [sampleFromSchema(schema.items, key)];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 1;
+    case Type.BOOLEAN:
+      return true;
+    default:
+      return `mock ${key}`;
+  }
+}
+
+// A short sequence of soft tones, one per word, so playback and WAV export can
+// be exercised without a TTS backend. 16-bit mono PCM, like Gemini TTS.
+export function synthesizePcm(text: string, sampleRate: number = TTS_SAMPLE_RATE): Uint8Array {
+  const words = text.split(/\s+/).filter(Boolean).slice(0, 40);
+  const toneSamples = Math.floor(sampleRate * 0.18);
+  const gapSamples = Math.floor(sampleRate * 0.06);
+  const samples = new Int16Array(Math.max(1, words.length) * (toneSamples + gapSamples));
+
+  (words.length ? words : ['']).forEach((word, w) => {
+    const frequency = 220 + (hashString(word) % 8) * 40;
+    const offset = w * (toneSamples + gapSamples);
+    for (let i = 0; i < toneSamples; i++) {
+      const envelope = Math.min(1, i / 240, (toneSamples - i) / 240);
+      samples[offset + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * envelope * 8000);
+    }
+  });
+  return new Uint8Array(samples.buffer);
+}
+
+const ASPECT_SIZES: Record<string, [number, number]> = {
+  '1:1': [512, 512],
+  '16:9': [640, 360],
+  '9:16': [360, 640],
+  '4:3': [512, 384],
+  '3:4': [384, 512],
+};
+
+// Mock operations finish straight away, so callers skip the 10s polling
+// interval. The name carries the video's details, so a job resumed after a
+// reload gets the same video back.
+function mockVideoOperation(name: string): GenerateVideosOperation {
+  const [, id = '0', ratio = '16x9'] = name.match(/^mock-operations\/(\w+)-(\d+x\d+)$/) ?? [];
+  const aspectRatio = ratio.replace('x', ':');
+  return Object.assign(new GenerateVideosOperation(), {
+    name,
+    done: true,
+    response: {
+      generatedVideos: [{ video: { uri: `mock://videos/${id}?aspectRatio=${aspectRatio}`, mimeType: 'video/webm' } }],
+    },
+  });
+}
+
+function placeholderSvg(prompt: string, index: number, aspectRatio: string = '1:1'): string {
+  const [width, height] = ASPECT_SIZES[aspectRatio] ?? ASPECT_SIZES['1:1'];
+  const hue = (hashString(prompt) + index * 47) % 360;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+    <stop offset="0%" stop-color="hsl(${hue},70%,55%)"/><stop offset="100%" stop-color="hsl(${(hue + 60) % 360},70%,35%)"/>
+  </linearGradient></defs>
+  <rect width="100%" height="100%" fill="url(#g)"/>
+  <text x="50%" y="45%" text-anchor="middle" font-family="sans-serif" font-size="28" fill="#fff">Mock image ${index + 1}</text>
+  <text x="50%" y="58%" text-anchor="middle" font-family="sans-serif" font-size="14" fill="#fff">${escapeXml(excerpt(prompt, 48))}</text>
+</svg>`;
+}
+
+const TEST_PATTERN_COLORS = ['#c0c0c0', '#c0c000', '#00c0c0', '#00c000', '#c000c0', '#c00000', '#0000c0'];
+
+function drawTestPattern(ctx: CanvasRenderingContext2D, width: number, height: number, elapsedMs: number) {
+  const barWidth = width / TEST_PATTERN_COLORS.length;
+  TEST_PATTERN_COLORS.forEach((color, i) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(i * barWidth, 0, Math.ceil(barWidth), height * 0.75);
+  });
+  ctx.fillStyle = '#101010';
+  ctx.fillRect(0, height * 0.75, width, height * 0.25);
+
+  const sweepX = ((elapsedMs / TEST_PATTERN_DURATION_MS) * width) % width;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(sweepX, height * 0.75, 8, height * 0.25);
+
+  ctx.font = `${Math.round(height / 12)}px monospace`;
+  ctx.textAlign = 'center';
+  ctx.fillText(`MOCK ${(elapsedMs / 1000).toFixed(2)}s`, width / 2, height * 0.9);
+}
+
+async function renderTestPatternVideo(width: number, height: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm', 'video/mp4'].find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(canvas.captureStream(30), mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => chunks.push(e.data);
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  const start = performance.now();
+  // setTimeout rather than requestAnimationFrame so rendering continues in a background tab.
+  await new Promise<void>(resolve => {
+    const draw = () => {
+      const elapsed = performance.now() - start;
+      drawTestPattern(ctx, width, height, Math.min(elapsed, TEST_PATTERN_DURATION_MS));
+      if (elapsed >= TEST_PATTERN_DURATION_MS) {
+        resolve();
+        return;
+      }
+      setTimeout(draw, 1000 / 30);
+    };
+    draw();
+  });
+  recorder.stop();
+  await stopped;
+  return new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+}
+
+function liveMessage(serverContent: LiveServerMessage['serverContent']): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), { serverContent });
+}
+
+// Answers every few seconds of microphone input with a canned transcript and a
+// synthesized audio turn, which is enough to drive LiveAgent end to end.
+class MockLiveSession implements LiveSession {
+  private receivedSamples = 0;
+  private turns = 0;
+  private closed = false;
+
+  constructor(private readonly callbacks: LiveCallbacks) {
+    setTimeout(() => {
+      if (!this.closed) this.callbacks.onopen?.();
+    }, MOCK_LATENCY_MS);
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    const data = params.media?.data ?? params.audio?.data;
+    if (this.closed || !data) return;
+
+    // Base64 of 16-bit PCM: 4 characters encode 3 bytes, 2 bytes per sample.
+    this.receivedSamples += Math.floor((data.length * 3) / 4 / 2);
+    if (this.receivedSamples < LIVE_INPUT_SAMPLE_RATE * LIVE_REPLY_EVERY_SECONDS) return;
+    this.receivedSamples = 0;
+    this.reply();
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.callbacks.onclose?.(new CloseEvent('close'));
+  }
+
+  private reply() {
+    this.turns += 1;
+    const answer = `This is mock live reply number ${this.turns}. I can hear you.`;
+    const messages = [
+      liveMessage({ inputTranscription: { text: `(mock transcript of turn ${this.turns})` } }),
+      liveMessage({ outputTranscription: { text: answer } }),
+      liveMessage({
+        modelTurn: {
+          role: 'model',
+          parts: [{ inlineData: { mimeType: `audio/pcm;rate=${TTS_SAMPLE_RATE}`, data: encode(synthesizePcm(answer)) } }],
+        },
+      }),
+      liveMessage({ turnComplete: true }),
+    ];
+    messages.forEach((message, i) => {
+      setTimeout(() => {
+        if (!this.closed) this.callbacks.onmessage(message);
+      }, MOCK_LATENCY_MS + i * 50);
+    });
+  }
+}
+
+// Deterministic, fully offline stand-in for the Gemini API. Selected with
+// GENAI_PROVIDER=mock; see README.
+export class MockProvider implements GenAiProvider {
+  readonly name = 'mock';
+
+  createChat(params: CreateChatParameters) {
+    return new HistoryChat(this, params);
+  }
+
+  async generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+    await waitFor(MOCK_LATENCY_MS, params.config?.abortSignal);
+    const parts = lastTurnParts(params.contents);
+    const prompt = parts.map(p => (typeof p === 'string' ? p : p.text ?? '')).filter(Boolean).join('\n');
+    const attachments = parts.filter(p => typeof p !== 'string' && p.inlineData).length;
+    const config = params.config ?? {};
+
+    let responseParts: Part[];
+    if (config.responseModalities?.includes(Modality.AUDIO)) {
+      const pcm = synthesizePcm(prompt);
+      responseParts = [{ inlineData: { mimeType: `audio/pcm;rate=${TTS_SAMPLE_RATE}`, data: encode(pcm) } }];
+    } else if (config.responseMimeType === 'application/json') {
+      responseParts = [{ text: JSON.stringify(sampleFromSchema(config.responseSchema as Schema | undefined), null, 2) }];
+    } else {
+      responseParts = [{ text: cannedText(prompt, attachments) }];
+    }
+
+    const response = new GenerateContentResponse();
+    response.modelVersion = `mock-${params.model}`;
+    response.candidates = [{
+      index: 0,
+      content: { role: 'model', parts: responseParts },
+      finishReason: FinishReason.STOP,
+    }];
+    const promptTokenCount = estimateTokens(allParts(params.contents));
+    const candidatesTokenCount = estimateTokens(responseParts);
+    response.usageMetadata = { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount };
+
+    if (config.tools?.some(tool => 'googleSearch' in tool || 'googleMaps' in tool)) {
+      response.candidates[0].groundingMetadata = {
+        groundingChunks: [1, 2].map(n => ({
+          web: { uri: `https://example.com/mock-source-${n}`, title: `Mock source ${n}` },
+        })),
+      };
+    }
+    return response;
+  }
+
+  // Streams the same canned answer as generateContent, a few words at a time.
+  async generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const full = await this.generateContent(params);
+    return (async function* () {
+      const text = full.candidates?.[0]?.content?.parts?.length === 1 ? full.text : undefined;
+      if (text === undefined) {
+        yield full;
+        return;
+      }
+      const pieces = text.match(/\S+\s*|\s+/g) ?? [];
+      for (let i = 0; i < pieces.length; i += 3) {
+        await waitFor(STREAM_CHUNK_DELAY_MS, params.config?.abortSignal);
+        const chunk = new GenerateContentResponse();
+        chunk.modelVersion = full.modelVersion;
+        chunk.candidates = [{
+          index: 0,
+          content: { role: 'model', parts: [{ text: pieces.slice(i, i + 3).join('') }] },
+          ...(i + 3 >= pieces.length && { finishReason: FinishReason.STOP }),
+        }];
+        if (i + 3 >= pieces.length) chunk.usageMetadata = full.usageMetadata;
+        yield chunk;
+      }
+    })();
+  }
+
+  async countTokens(params: CountTokensParameters): Promise<CountTokensResponse> {
+    return Object.assign(new CountTokensResponse(), { totalTokens: estimateTokens(allParts(params.contents)) });
+  }
+
+  async embedContent(params: EmbedContentParameters): Promise<EmbedContentResponse> {
+    const dimensions = params.config?.outputDimensionality ?? EMBEDDING_DIMENSIONS;
+    const embeddings = (Array.isArray(params.contents) ? params.contents : [params.contents]).map(content => {
+      const text = allParts(content as ContentListUnion).map(part => (typeof part === 'string' ? part : part.text ?? '')).join(' ');
+      return { values: mockEmbedding(text, dimensions) };
+    });
+    return Object.assign(new EmbedContentResponse(), { embeddings });
+  }
+
+  async generateImages(params: GenerateImagesParameters): Promise<GenerateImagesResponse> {
+    await waitFor(MOCK_LATENCY_MS, params.config?.abortSignal);
+    const count = params.config?.numberOfImages ?? 1;
+    const response = new GenerateImagesResponse();
+    response.generatedImages = Array.from({ length: count }, (_, i) => ({
+      image: {
+        imageBytes: encode(new TextEncoder().encode(placeholderSvg(params.prompt, i, params.config?.aspectRatio))),
+        mimeType: 'image/svg+xml',
+      },
+    }));
+    return response;
+  }
+
+  async generateVideos(params: GenerateVideosParameters): Promise<GenerateVideosOperation> {
+    await waitFor(MOCK_LATENCY_MS, params.config?.abortSignal);
+    const id = hashString(params.prompt ?? '').toString(16);
+    const aspectRatio = params.config?.aspectRatio ?? '16:9';
+    return mockVideoOperation(`mock-operations/${id}-${aspectRatio.replace(':', 'x')}`);
+  }
+
+  async getVideosOperation(operation: GenerateVideosOperation): Promise<GenerateVideosOperation> {
+    return mockVideoOperation(operation.name ?? '');
+  }
+
+  downloadVideo(uri: string): Promise<Blob> {
+    const aspectRatio = new URL(uri).searchParams.get('aspectRatio');
+    const [width, height] = ASPECT_SIZES[aspectRatio ?? '16:9'] ?? ASPECT_SIZES['16:9'];
+    return renderTestPatternVideo(width, height);
+  }
+
+  async connectLive(params: LiveConnectParameters): Promise<LiveSession> {
+    return new MockLiveSession(params.callbacks);
+  }
+}
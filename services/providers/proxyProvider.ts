@@ -0,0 +1,144 @@
+import {
+  ApiError,
+  CountTokensParameters,
+  CountTokensResponse,
+  CreateChatParameters,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateImagesParameters,
+  GenerateImagesResponse,
+  GenerateVideosOperation,
+  GenerateVideosParameters,
+  GoogleGenAI,
+  LiveConnectParameters,
+} from '@google/genai';
+import { auth } from '../../firebase';
+import { HistoryChat } from './historyChat';
+import { parseRetryAfter } from '../errors';
+import { GenAiProvider, LiveSession } from './types';
+
+type WithAbortSignal = { config?: { abortSignal?: AbortSignal } };
+
+// An AbortSignal can't be sent to the proxy; it cancels the fetch instead.
+function splitAbortSignal<T extends WithAbortSignal>(params: T): [T, AbortSignal | undefined] {
+  if (!params.config?.abortSignal) return [params, undefined];
+  const { abortSignal, ...config } = params.config;
+  return [{ ...params, config }, abortSignal];
+}
+
+// Talks only to the NexaNeuron proxy in server/, which holds the API key and
+// checks the caller's Firebase ID token on every request.
+export class ProxyProvider implements GenAiProvider {
+  readonly name = 'proxy';
+
+  constructor(private readonly baseUrl: string = '') {}
+
+  private async authHeaders(): Promise<Record<string, string>> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new ApiError({ status: 401, message: 'Sign in with Google to use AI features.' });
+    }
+    return { Authorization: `Bearer ${await user.getIdToken()}` };
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { ...init.headers, ...(await this.authHeaders()) },
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const error = new ApiError({
+        status: response.status,
+        message: body?.error?.message ?? `Proxy request failed (${response.status}).`,
+      });
+      throw Object.assign(error, { retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) });
+    }
+    return response;
+  }
+
+  private async post<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const response = await this.request(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    return response.json();
+  }
+
+  createChat(params: CreateChatParameters) {
+    return new HistoryChat(this, params);
+  }
+
+  async generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+    const json = await this.post('/api/models/generateContent', ...splitAbortSignal(params));
+    return Object.assign(new GenerateContentResponse(), json);
+  }
+
+  async generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const [body, signal] = splitAbortSignal(params);
+    const response = await this.request('/api/models/generateContentStream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    return (async function* () {
+      let buffered = '';
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffered += value;
+          const lines = buffered.split('\n');
+          buffered = lines.pop()!;
+          for (const line of lines.filter(Boolean)) {
+            yield Object.assign(new GenerateContentResponse(), JSON.parse(line));
+          }
+        }
+      } finally {
+        reader.cancel().catch(() => {});
+      }
+    })();
+  }
+
+  async countTokens(params: CountTokensParameters): Promise<CountTokensResponse> {
+    const json = await this.post('/api/models/countTokens', ...splitAbortSignal(params));
+    return Object.assign(new CountTokensResponse(), json);
+  }
+
+  async embedContent(params: EmbedContentParameters): Promise<EmbedContentResponse> {
+    const json = await this.post('/api/models/embedContent', ...splitAbortSignal(params));
+    return Object.assign(new EmbedContentResponse(), json);
+  }
+
+  async generateImages(params: GenerateImagesParameters): Promise<GenerateImagesResponse> {
+    const json = await this.post('/api/models/generateImages', ...splitAbortSignal(params));
+    return Object.assign(new GenerateImagesResponse(), json);
+  }
+
+  async generateVideos(params: GenerateVideosParameters): Promise<GenerateVideosOperation> {
+    const json = await this.post('/api/models/generateVideos', ...splitAbortSignal(params));
+    return Object.assign(new GenerateVideosOperation(), json);
+  }
+
+  async getVideosOperation(operation: GenerateVideosOperation, signal?: AbortSignal): Promise<GenerateVideosOperation> {
+    const json = await this.post('/api/operations/getVideosOperation', { operation }, signal);
+    return Object.assign(new GenerateVideosOperation(), json);
+  }
+
+  async downloadVideo(uri: string, signal?: AbortSignal): Promise<Blob> {
+    const response = await this.request(`/api/videos/download?uri=${encodeURIComponent(uri)}`, { signal });
+    return response.blob();
+  }
+
+  async connectLive(params: LiveConnectParameters): Promise<LiveSession> {
+    const { token } = await this.post<{ token: string }>('/api/live/token', {});
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+    return ai.live.connect(params);
+  }
+}
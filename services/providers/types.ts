@@ -0,0 +1,50 @@
+import {
+  Content,
+  CountTokensParameters,
+  CountTokensResponse,
+  CreateChatParameters,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateImagesParameters,
+  GenerateImagesResponse,
+  GenerateVideosOperation,
+  GenerateVideosParameters,
+  LiveConnectParameters,
+  LiveSendRealtimeInputParameters,
+  SendMessageParameters,
+} from '@google/genai';
+
+export type ProviderName = 'google' | 'proxy' | 'mock';
+
+// The subset of the SDK's Chat that the app relies on. Providers that do not
+// wrap the SDK can implement it on top of generateContent (see HistoryChat).
+export interface ChatSession {
+  sendMessage(params: SendMessageParameters): Promise<GenerateContentResponse>;
+  sendMessageStream(params: SendMessageParameters): Promise<AsyncGenerator<GenerateContentResponse>>;
+  getHistory(curated?: boolean): Content[];
+}
+
+// The subset of the SDK's live Session that the app relies on.
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  close(): void;
+}
+
+// Everything GeminiService needs from a backend. The Google provider maps these
+// straight onto the SDK; other providers must return SDK-shaped responses so the
+// service code stays identical regardless of which one is active.
+export interface GenAiProvider {
+  readonly name: ProviderName;
+  createChat(params: CreateChatParameters): ChatSession;
+  generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+  generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>>;
+  countTokens(params: CountTokensParameters): Promise<CountTokensResponse>;
+  embedContent(params: EmbedContentParameters): Promise<EmbedContentResponse>;
+  generateImages(params: GenerateImagesParameters): Promise<GenerateImagesResponse>;
+  generateVideos(params: GenerateVideosParameters): Promise<GenerateVideosOperation>;
+  getVideosOperation(operation: GenerateVideosOperation, signal?: AbortSignal): Promise<GenerateVideosOperation>;
+  downloadVideo(uri: string, signal?: AbortSignal): Promise<Blob>;
+  connectLive(params: LiveConnectParameters): Promise<LiveSession>;
+}
@@ -0,0 +1,183 @@
+import { GeminiError, toGeminiError } from './errors';
+import { supports } from './modelRegistry';
+
+// Chat replies and their helpers jump ahead of generations and analyses
+// queued for the same model.
+export type RequestPriority = 'interactive' | 'batch';
+
+export interface RateLimits {
+  maxConcurrent: number;
+  requestsPerMinute: number;
+}
+
+export interface QueuedRequest {
+  id: number;
+  model: string;
+  priority: RequestPriority;
+  // 1-based place in its model's queue
+  position: number;
+}
+
+export interface SchedulerState {
+  queued: QueuedRequest[];
+  running: number;
+}
+
+interface Waiter {
+  id: number;
+  priority: RequestPriority;
+  start: () => void;
+}
+
+interface Lane {
+  // What the limits grow back to after a quota error
+  ceiling: RateLimits;
+  limits: RateLimits;
+  running: number;
+  // When each request of the last minute started
+  starts: number[];
+  pausedUntil: number;
+  lastQuotaError: number;
+  queue: Waiter[];
+}
+
+const WINDOW_MS = 60_000;
+
+// Starting limits, at the low end of the paid tiers. A 429 lowers them for the
+// session, so a free-tier key settles at its own limits after a few requests.
+export function defaultLimits(model: string): RateLimits {
+  if (supports(model, 'video-generation')) return { maxConcurrent: 1, requestsPerMinute: 2 };
+  if (supports(model, 'image-generation')) return { maxConcurrent: 2, requestsPerMinute: 10 };
+  if (supports(model, 'embedding')) return { maxConcurrent: 2, requestsPerMinute: 100 };
+  return { maxConcurrent: 4, requestsPerMinute: 60 };
+}
+
+// Holds requests back per model so a burst of them doesn't end in quota errors.
+// Limits are halved (to what actually got through) on a 429 and then raised by
+// one per successful request once a minute has passed without another.
+export class RequestScheduler {
+  private lanes = new Map<string, Lane>();
+  private listeners = new Set<(state: SchedulerState) => void>();
+  private nextId = 1;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Runs `request` once `model` has room for it. A request holds its slot until
+  // it settles; for a stream, that's when the stream opens.
+  async run<T>(model: string, request: () => Promise<T>, priority: RequestPriority, signal?: AbortSignal): Promise<T> {
+    const lane = this.getLane(model);
+    await this.acquire(lane, priority, signal);
+    try {
+      const result = await request();
+      this.recordSuccess(lane);
+      return result;
+    } catch (error) {
+      const geminiError = toGeminiError(error);
+      if (geminiError.kind === 'quota') this.recordQuotaError(model, lane, geminiError);
+      throw error;
+    } finally {
+      lane.running--;
+      this.drain();
+    }
+  }
+
+  getLimits(model: string): RateLimits {
+    return { ...this.getLane(model).limits };
+  }
+
+  getState(): SchedulerState {
+    const queued = [...this.lanes.entries()].flatMap(([model, lane]) =>
+      lane.queue.map((waiter, index) => ({ id: waiter.id, model, priority: waiter.priority, position: index + 1 })));
+    const running = [...this.lanes.values()].reduce((total, lane) => total + lane.running, 0);
+    return { queued, running };
+  }
+
+  // `listener` gets the queue every time it changes; returns a function that
+  // unsubscribes it.
+  subscribe(listener: (state: SchedulerState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private getLane(model: string): Lane {
+    let lane = this.lanes.get(model);
+    if (!lane) {
+      const limits = defaultLimits(model);
+      lane = { ceiling: limits, limits: { ...limits }, running: 0, starts: [], pausedUntil: 0, lastQuotaError: 0, queue: [] };
+      this.lanes.set(model, lane);
+    }
+    return lane;
+  }
+
+  private acquire(lane: Lane, priority: RequestPriority, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('The request was cancelled.', 'AbortError'));
+        return;
+      }
+      const onAbort = () => {
+        lane.queue = lane.queue.filter(w => w !== waiter);
+        reject(new DOMException('The request was cancelled.', 'AbortError'));
+        this.notify();
+      };
+      const waiter: Waiter = {
+        id: this.nextId++,
+        priority,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      // Behind everything of the same priority, ahead of anything lower
+      const index = priority === 'interactive' ? lane.queue.findIndex(w => w.priority === 'batch') : -1;
+      if (index === -1) lane.queue.push(waiter);
+      else lane.queue.splice(index, 0, waiter);
+      this.drain();
+    });
+  }
+
+  // Starts whatever the limits allow and sets a timer for when more can start.
+  private drain() {
+    const now = Date.now();
+    let wakeAt = Infinity;
+    for (const lane of this.lanes.values()) {
+      lane.starts = lane.starts.filter(start => now - start < WINDOW_MS);
+      while (lane.queue.length > 0 && lane.running < lane.limits.maxConcurrent) {
+        if (now < lane.pausedUntil) {
+          wakeAt = Math.min(wakeAt, lane.pausedUntil);
+          break;
+        }
+        if (lane.starts.length >= lane.limits.requestsPerMinute) {
+          wakeAt = Math.min(wakeAt, lane.starts[0] + WINDOW_MS);
+          break;
+        }
+        lane.running++;
+        lane.starts.push(now);
+        lane.queue.shift()!.start();
+      }
+    }
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = wakeAt === Infinity ? null : setTimeout(() => this.drain(), Math.max(0, wakeAt - now));
+    this.notify();
+  }
+
+  private recordQuotaError(model: string, lane: Lane, error: GeminiError) {
+    const now = Date.now();
+    const recent = lane.starts.filter(start => now - start < WINDOW_MS).length;
+    lane.limits.requestsPerMinute = Math.max(1, Math.floor(Math.min(lane.limits.requestsPerMinute, recent) / 2));
+    lane.lastQuotaError = now;
+    if (error.retryAfterMs) lane.pausedUntil = Math.max(lane.pausedUntil, now + error.retryAfterMs);
+    console.warn(`Rate limited on ${model}; now allowing ${lane.limits.requestsPerMinute} requests per minute`);
+  }
+
+  private recordSuccess(lane: Lane) {
+    if (Date.now() - lane.lastQuotaError > WINDOW_MS && lane.limits.requestsPerMinute < lane.ceiling.requestsPerMinute) {
+      lane.limits.requestsPerMinute++;
+    }
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
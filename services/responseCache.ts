@@ -0,0 +1,129 @@
+import { promisifyRequest, withStore } from './db';
+
+const STORE = 'responseCache';
+const SETTINGS_KEY = 'nexaneuron-response-cache';
+
+export type CachedKind = 'imageAnalysis' | 'groundedSearch' | 'speech';
+
+export const CACHED_KIND_LABELS: Record<CachedKind, string> = {
+  imageAnalysis: 'Image analysis',
+  groundedSearch: 'Grounded search',
+  speech: 'Text to speech',
+};
+
+export interface CacheSettings {
+  enabled: boolean;
+  ttlHours: number;
+  maxSizeMb: number;
+}
+
+const DEFAULT_SETTINGS: CacheSettings = { enabled: false, ttlHours: 24, maxSizeMb: 50 };
+
+export interface CacheEntry {
+  key: string;
+  kind: CachedKind;
+  model: string;
+  // The start of the prompt, to recognise the entry by
+  label: string;
+  value: unknown;
+  // Approximate bytes taken by `value`
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+}
+
+// What callers of a cached GeminiService method can ask for. `refresh` skips
+// the lookup and replaces the entry; `onCacheHit` is told when an answer came
+// from the cache, with when it was first fetched.
+export interface CacheOptions {
+  refresh?: boolean;
+  onCacheHit?: (createdAt: number) => void;
+}
+
+export function getCacheSettings(): CacheSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    return { ...DEFAULT_SETTINGS, ...(saved && typeof saved === 'object' ? saved : {}) };
+  } catch (error) {
+    console.error("Failed to parse cache settings from localStorage", error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveCacheSettings(settings: CacheSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// SHA-256 of everything that decides the answer. Text and media are
+// length-prefixed so ["ab", "c"] and ["a", "bc"] hash differently.
+export async function hashKey(parts: (string | ArrayBuffer)[]): Promise<string> {
+  const encoder = new TextEncoder();
+  const buffers = parts.map(part => (typeof part === 'string' ? encoder.encode(part) : new Uint8Array(part)));
+  const total = buffers.reduce((sum, buffer) => sum + 4 + buffer.byteLength, 0);
+  const bytes = new Uint8Array(total);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const buffer of buffers) {
+    view.setUint32(offset, buffer.byteLength);
+    bytes.set(buffer, offset + 4);
+    offset += 4 + buffer.byteLength;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Answers to repeatable requests, kept in IndexedDB until they expire or the
+// least recently used ones are evicted to stay under the size limit.
+class ResponseCache {
+  async get<T>(key: string): Promise<CacheEntry & { value: T } | undefined> {
+    return withStore(STORE, 'readwrite', async store => {
+      const entry = await promisifyRequest<CacheEntry | undefined>(store.get(key));
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        await promisifyRequest(store.delete(key));
+        return undefined;
+      }
+      const used = { ...entry, lastUsedAt: Date.now() };
+      await promisifyRequest(store.put(used));
+      return used as CacheEntry & { value: T };
+    });
+  }
+
+  async put(entry: Omit<CacheEntry, 'size' | 'createdAt' | 'lastUsedAt' | 'expiresAt'>): Promise<void> {
+    const { ttlHours, maxSizeMb } = getCacheSettings();
+    const now = Date.now();
+    const size = JSON.stringify(entry.value).length;
+    const maxSize = maxSizeMb * 1024 * 1024;
+    // Too big to keep without evicting everything else
+    if (size > maxSize / 2) return;
+    await withStore(STORE, 'readwrite', async store => {
+      await promisifyRequest(store.put({ ...entry, size, createdAt: now, lastUsedAt: now, expiresAt: now + ttlHours * 3_600_000 }));
+      const entries = await promisifyRequest<CacheEntry[]>(store.getAll());
+      let used = 0;
+      const evicted: string[] = [];
+      for (const cached of entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt)) {
+        if (cached.expiresAt > now) used += cached.size;
+        if (cached.expiresAt <= now || used > maxSize) evicted.push(cached.key);
+      }
+      await Promise.all(evicted.map(key => promisifyRequest(store.delete(key))));
+    });
+  }
+
+  // Newest first, without expired entries.
+  async list(): Promise<CacheEntry[]> {
+    const entries = await withStore(STORE, 'readonly', store => promisifyRequest<CacheEntry[]>(store.getAll()));
+    const now = Date.now();
+    return entries.filter(entry => entry.expiresAt > now).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async delete(key: string): Promise<void> {
+    await withStore(STORE, 'readwrite', store => promisifyRequest(store.delete(key)));
+  }
+
+  async clear(): Promise<void> {
+    await withStore(STORE, 'readwrite', store => promisifyRequest(store.clear()));
+  }
+}
+
+export const responseCache = new ResponseCache();
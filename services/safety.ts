@@ -0,0 +1,111 @@
+import { BlockedReason, FinishReason, GenerateContentResponse, HarmBlockThreshold, HarmCategory, HarmProbability, SafetySetting } from '@google/genai';
+import { SafetyFeedback } from '../types';
+import { GeminiError } from './errors';
+
+// The categories whose thresholds can be changed; anything else Gemini blocks
+// (prohibited content, personal data, recitation) is fixed policy.
+export const SAFETY_CATEGORIES: { category: HarmCategory; label: string }[] = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, label: 'Harassment' },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, label: 'Hate speech' },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, label: 'Sexually explicit' },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, label: 'Dangerous content' },
+];
+
+export const SAFETY_THRESHOLDS: { threshold: HarmBlockThreshold; label: string }[] = [
+  { threshold: HarmBlockThreshold.BLOCK_NONE, label: 'Block none' },
+  { threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH, label: 'Block few' },
+  { threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE, label: 'Block some' },
+  { threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE, label: 'Block most' },
+];
+
+const BLOCKING_FINISH_REASONS = new Set<FinishReason>([
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+]);
+
+const PROMPT_EXPLANATIONS: Partial<Record<BlockedReason, string>> = {
+  [BlockedReason.SAFETY]: 'Your prompt was blocked by the safety filters.',
+  [BlockedReason.BLOCKLIST]: 'Your prompt contains a blocked term.',
+  [BlockedReason.PROHIBITED_CONTENT]: 'Your prompt was blocked because it may ask for prohibited content.',
+  [BlockedReason.IMAGE_SAFETY]: 'Your prompt was blocked because of unsafe image content.',
+};
+
+const ANSWER_EXPLANATIONS: Partial<Record<FinishReason, string>> = {
+  [FinishReason.SAFETY]: 'The answer was stopped by the safety filters.',
+  [FinishReason.RECITATION]: 'The answer was stopped because it repeated copyrighted material too closely.',
+  [FinishReason.BLOCKLIST]: 'The answer was stopped because it contained a blocked term.',
+  [FinishReason.PROHIBITED_CONTENT]: 'The answer was stopped because it may contain prohibited content.',
+  [FinishReason.SPII]: 'The answer was stopped because it may contain sensitive personal information.',
+  [FinishReason.IMAGE_SAFETY]: 'The answer was stopped because of unsafe image content.',
+};
+
+const PROBABILITY_ORDER = [HarmProbability.NEGLIGIBLE, HarmProbability.LOW, HarmProbability.MEDIUM, HarmProbability.HIGH];
+
+export class ResponseBlockedError extends GeminiError {
+  constructor(public feedback: SafetyFeedback) {
+    super('safety', describeSafetyFeedback(feedback));
+    this.name = 'ResponseBlockedError';
+  }
+}
+
+const toRatings = (ratings: { category?: HarmCategory; probability?: HarmProbability; blocked?: boolean }[] = []) =>
+  ratings
+    .filter(rating => rating.category && rating.probability)
+    .map(rating => ({ category: rating.category!, probability: rating.probability!, blocked: !!rating.blocked }));
+
+// Feedback when the prompt was refused or every answer was stopped, otherwise
+// undefined. Works on stream chunks too, which carry these fields piecemeal.
+export function getSafetyFeedback(response: Pick<GenerateContentResponse, 'promptFeedback' | 'candidates'>): SafetyFeedback | undefined {
+  const { promptFeedback, candidates = [] } = response;
+  if (promptFeedback?.blockReason) {
+    return { blockReason: promptFeedback.blockReason, ratings: toRatings(promptFeedback.safetyRatings) };
+  }
+  if (candidates.length === 0 || !candidates.every(candidate => candidate.finishReason && BLOCKING_FINISH_REASONS.has(candidate.finishReason))) {
+    return undefined;
+  }
+  return { finishReason: candidates[0].finishReason, ratings: toRatings(candidates[0].safetyRatings) };
+}
+
+export function getCategoryLabel(category: HarmCategory): string {
+  return SAFETY_CATEGORIES.find(c => c.category === category)?.label
+    ?? category.replace(/^HARM_CATEGORY_/, '').toLowerCase().replace(/_/g, ' ');
+}
+
+// The adjustable categories that tripped the filter: those marked blocked, or
+// failing that the ones rated medium or high.
+export function getBlockingCategories(feedback: SafetyFeedback): HarmCategory[] {
+  const adjustable = feedback.ratings.filter(rating => SAFETY_CATEGORIES.some(c => c.category === rating.category));
+  const blocked = adjustable.filter(rating => rating.blocked);
+  const flagged = blocked.length > 0
+    ? blocked
+    : adjustable.filter(rating => PROBABILITY_ORDER.indexOf(rating.probability) >= PROBABILITY_ORDER.indexOf(HarmProbability.MEDIUM));
+  return flagged.map(rating => rating.category);
+}
+
+// Only blocks by the harm category filters can be lifted with safety settings.
+export function isAdjustable(feedback: SafetyFeedback): boolean {
+  const bySafetyFilter = feedback.blockReason === BlockedReason.SAFETY || feedback.finishReason === FinishReason.SAFETY;
+  return bySafetyFilter && getBlockingCategories(feedback).length > 0;
+}
+
+export function describeSafetyFeedback(feedback: SafetyFeedback): string {
+  const explanation = (feedback.blockReason && PROMPT_EXPLANATIONS[feedback.blockReason])
+    ?? (feedback.finishReason && ANSWER_EXPLANATIONS[feedback.finishReason])
+    ?? (feedback.blockReason ? 'Your prompt was blocked.' : 'The answer was blocked.');
+  const categories = getBlockingCategories(feedback).map(getCategoryLabel);
+  return categories.length > 0 ? `${explanation} Flagged: ${categories.join(', ')}.` : explanation;
+}
+
+export function formatProbability(probability: HarmProbability): string {
+  return probability.toLowerCase().replace(/_/g, ' ');
+}
+
+// `overrides` win category by category.
+export function mergeSafetySettings(base: SafetySetting[] = [], overrides: SafetySetting[] = []): SafetySetting[] | undefined {
+  const merged = [...base.filter(setting => !overrides.some(o => o.category === setting.category)), ...overrides];
+  return merged.length > 0 ? merged : undefined;
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from './sanitizeHtml';
+import { renderMarkdown } from './markdown';
+
+const ACTIVE_TAGS = ['script', 'style', 'iframe', 'object', 'embed', 'svg', 'math', 'form', 'link', 'meta', 'base', 'template'];
+
+// Everything that could run script, load a frame or navigate somewhere unsafe.
+function findActiveContent(html: string): string[] {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const problems: string[] = [];
+  for (const element of Array.from(template.content.querySelectorAll('*'))) {
+    const tag = element.tagName.toLowerCase();
+    if (ACTIVE_TAGS.includes(tag)) problems.push(`<${tag}>`);
+    for (const { name, value } of Array.from(element.attributes)) {
+      if (name.startsWith('on')) problems.push(`${tag}[${name}]`);
+      const url = value.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase();
+      if ((name === 'href' || name === 'src') && /^(?:javascript|vbscript|data):/.test(url) && !(tag === 'img' && url.startsWith('data:image/png'))) {
+        problems.push(`${tag}[${name}=${value}]`);
+      }
+    }
+  }
+  return problems;
+}
+
+describe('sanitizeHtml', () => {
+  it.each([
+    ['img onerror', '<img src="x" onerror="alert(1)">'],
+    ['script', '<p>hi</p><script>alert(1)</script>'],
+    ['iframe', '<iframe src="https://evil.example"></iframe>'],
+    ['event handlers on allowed tags', '<a href="https://example.com" onclick="alert(1)" onmouseover="alert(1)">x</a>'],
+    ['javascript: href', '<a href="javascript:alert(1)">x</a>'],
+    ['mixed-case scheme', '<a href="JaVaScRiPt:alert(1)">x</a>'],
+    ['entity-encoded scheme', '<a href="&#106;avascript:alert(1)">x</a>'],
+    ['hex-entity scheme', '<a href="&#x6A;&#x61;&#x76;&#x61;script:alert(1)">x</a>'],
+    ['tab inside the scheme', '<a href="java&#x09;script:alert(1)">x</a>'],
+    ['newline inside the scheme', '<a href="java\nscript:alert(1)">x</a>'],
+    ['leading whitespace', '<a href="  javascript:alert(1)">x</a>'],
+    ['control character prefix', '<a href="&#x01;javascript:alert(1)">x</a>'],
+    ['data: href', '<a href="data:text/html,<script>alert(1)</script>">x</a>'],
+    ['data: svg image', '<img src="data:image/svg+xml;base64,PHN2Zz48L3N2Zz4=">'],
+    ['javascript: image', '<img src="javascript:alert(1)">'],
+    ['svg namespace', '<svg><script>alert(1)</script><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>'],
+    ['svg onload', '<svg onload="alert(1)"></svg>'],
+    ['math namespace', '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>'],
+    ['nested form in math', '<math><maction actiontype="statusline" xlink:href="javascript:alert(1)">x</maction></math>'],
+    ['object and embed', '<object data="evil.swf"></object><embed src="evil.swf">'],
+    ['meta refresh', '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">'],
+    ['base href', '<base href="javascript:alert(1)//">'],
+    ['unknown tag wrapping a handler', '<custom-el><img src=x onerror=alert(1)></custom-el>'],
+    ['comment breakout', '<!--><img src=x onerror=alert(1)>-->'],
+    ['template contents', '<template><img src=x onerror=alert(1)></template>'],
+  ])('neutralises %s', (_, html) => {
+    expect(findActiveContent(sanitizeHtml(html))).toEqual([]);
+  });
+
+  it('drops style attributes and arbitrary classes', () => {
+    const html = sanitizeHtml('<p style="background:url(javascript:alert(1))" class="fixed inset-0">x</p><code class="language-js">y</code>');
+    expect(html).not.toContain('style=');
+    expect(html).not.toContain('inset-0');
+    expect(html).toContain('class="language-js"');
+  });
+
+  it('keeps safe links and opens them in a new tab', () => {
+    const html = sanitizeHtml('<a href="https://example.com/a?b=1">x</a>');
+    expect(html).toContain('href="https://example.com/a?b=1"');
+    expect(html).toContain('rel="noopener noreferrer nofollow"');
+  });
+
+  it('keeps the text of unknown tags', () => {
+    expect(sanitizeHtml('<blink>hello</blink>')).toBe('hello');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it.each([
+    ['raw script', 'Hello <script>alert(1)</script>'],
+    ['raw img onerror', 'Look: <img src=x onerror="alert(1)">'],
+    ['raw iframe', '<iframe src="https://evil.example"></iframe>'],
+    ['raw svg', '<svg onload=alert(1)><circle r="1"/></svg>'],
+    ['raw style attribute', '<div style="position:fixed;inset:0">cover</div>'],
+    ['javascript: link', '[click](javascript:alert(1))'],
+    ['entity-obfuscated link', '[click](&#106;avascript:alert(1))'],
+    ['javascript: autolink', '<javascript:alert(1)>'],
+    ['javascript: reference link', '[click][evil]\n\n[evil]: javascript:alert(1)'],
+    ['data: link', '[click](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)'],
+    ['javascript: image', '![x](javascript:alert(1))'],
+    ['html in a link title', '[x](https://example.com "a\\" onmouseover=\\"alert(1)")'],
+    ['html inside a table', '| a |\n|---|\n| <img src=x onerror=alert(1)> |'],
+  ])('neutralises %s', (_, markdown) => {
+    expect(findActiveContent(renderMarkdown(markdown))).toEqual([]);
+  });
+
+  it('keeps inline math in an image alt text out of the attribute', () => {
+    const html = renderMarkdown('![a $x$](https://example.com/a.png)');
+    const img = new DOMParser().parseFromString(html, 'text/html').querySelector('img');
+    expect(img?.getAttribute('alt')).not.toMatch(/[<>\uE000\uE001]/);
+    expect(html).not.toContain('katex');
+  });
+
+  it('keeps math in a link title out of the attribute', () => {
+    const html = renderMarkdown('[x](https://example.com "$x$") and `$y$`');
+    expect(findActiveContent(html)).toEqual([]);
+    expect(html).not.toMatch(/title="[^"]*</);
+  });
+
+  it('ignores placeholder characters in the input', () => {
+    const html = renderMarkdown('\uE0000\uE001$x$ \uE0000\uE001 ![\uE0000\uE001](https://example.com/a.png)');
+    expect(html).not.toMatch(/[\uE000\uE001]/);
+    expect(html.match(/class="katex"/g)).toHaveLength(1);
+  });
+
+  it('still renders math and highlighted code in text', () => {
+    const html = renderMarkdown('Inline $x^2$\n\n```js\nconst a = "<script>";\n```');
+    expect(html).toContain('class="katex"');
+    expect(html).toContain('hljs');
+    expect(findActiveContent(html)).toEqual([]);
+  });
+});
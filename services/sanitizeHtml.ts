@@ -0,0 +1,90 @@
+// Allow-list sanitizer for HTML rendered from model output and web snippets.
+// Anything not listed here is dropped, so new markdown features stay inert
+// until they are added on purpose.
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'code', 'del', 'details', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'hr', 'i', 'img', 'input', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'pre', 's', 'small', 'span', 'strong', 'sub',
+  'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul',
+]);
+
+// Removed together with their content; other unknown tags are unwrapped and keep their text.
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'template', 'noscript',
+  'textarea', 'select', 'button', 'form', 'link', 'meta', 'base', 'title', 'svg', 'math', 'audio', 'video', 'source',
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['title', 'lang', 'dir']);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href']),
+  img: new Set(['src', 'alt', 'width', 'height']),
+  td: new Set(['align', 'colspan', 'rowspan']),
+  th: new Set(['align', 'colspan', 'rowspan', 'scope']),
+  ol: new Set(['start']),
+  input: new Set(['type', 'checked', 'disabled']),
+  code: new Set(['class']),
+  details: new Set(['open']),
+};
+
+const SAFE_LINK = /^(?:https?:|mailto:|#|\/(?!\/)|\.{0,2}\/)/i;
+const SAFE_IMAGE = /^(?:https?:|data:image\/(?:png|jpe?g|gif|webp|avif);base64,)/i;
+// Markdown code fences become class="language-xyz"; nothing else may set classes
+const SAFE_CLASS = /^language-[\w+#-]+$/;
+
+function isAllowedAttribute(tag: string, name: string, value: string): boolean {
+  if (!GLOBAL_ATTRIBUTES.has(name) && !TAG_ATTRIBUTES[tag]?.has(name)) return false;
+  // Browsers ignore whitespace and control characters inside URL schemes ("java\tscript:")
+  const url = value.replace(/[\u0000- \u007f-\u009f]/g, '');
+  if (tag === 'a' && name === 'href') return SAFE_LINK.test(url);
+  if (tag === 'img' && name === 'src') return SAFE_IMAGE.test(url);
+  if (tag === 'code' && name === 'class') return SAFE_CLASS.test(value);
+  // Only the read-only checkboxes of markdown task lists
+  if (tag === 'input' && name === 'type') return value === 'checkbox';
+  return true;
+}
+
+function sanitizeNode(node: Node): void {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      child.remove();
+      continue;
+    }
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+      continue;
+    }
+    sanitizeNode(element);
+    if (!ALLOWED_TAGS.has(tag)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      continue;
+    }
+    for (const { name, value } of Array.from(element.attributes)) {
+      if (!isAllowedAttribute(tag, name.toLowerCase(), value)) element.removeAttribute(name);
+    }
+    if (tag === 'a') {
+      element.setAttribute('target', '_blank');
+      element.setAttribute('rel', 'noopener noreferrer nofollow');
+    }
+    if (tag === 'img') element.setAttribute('referrerpolicy', 'no-referrer');
+    if (tag === 'input') {
+      if (element.getAttribute('type') !== 'checkbox') {
+        element.remove();
+        continue;
+      }
+      element.setAttribute('disabled', '');
+    }
+  }
+}
+
+// Parsing into a <template> keeps the markup inert: scripts don't run and
+// images don't load while it is being cleaned.
+export function sanitizeHtml(html: string): string {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  sanitizeNode(template.content);
+  return template.innerHTML;
+}
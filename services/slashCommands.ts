@@ -0,0 +1,47 @@
+import { PromptTemplate } from '../types';
+import { templateCommand } from './templateStore';
+
+export type SlashCommandName = 'image' | 'search' | 'tts' | 'summarize' | 'translate' | 'clear' | 'style';
+
+export interface SlashCommand {
+  name: SlashCommandName;
+  // Shown after the name, e.g. "<prompt>"; commands without one run as soon as they are picked
+  usage?: string;
+  description: string;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: 'image', usage: '<prompt>', description: 'Generate an image' },
+  { name: 'search', usage: '<question>', description: 'Answer with Google Search' },
+  { name: 'tts', usage: '<text>', description: 'Read text aloud' },
+  { name: 'summarize', description: 'Summarize this conversation' },
+  { name: 'translate', usage: '<language> [text]', description: 'Translate text, or the last reply' },
+  { name: 'clear', description: 'Start a new chat' },
+  { name: 'style', usage: '<persona>', description: 'Switch to another persona' },
+];
+
+export type PaletteItem =
+  | { kind: 'command'; command: SlashCommand }
+  | { kind: 'template'; template: PromptTemplate };
+
+// `query` is what follows the "/"; commands come before templates.
+export function getPaletteItems(query: string, templates: PromptTemplate[]): PaletteItem[] {
+  const needle = query.toLowerCase();
+  return [
+    ...SLASH_COMMANDS
+      .filter(command => command.name.startsWith(needle))
+      .map((command): PaletteItem => ({ kind: 'command', command })),
+    ...templates
+      .filter(template => templateCommand(template).includes(needle) || template.category.toLowerCase().startsWith(needle))
+      .map((template): PaletteItem => ({ kind: 'template', template })),
+  ];
+}
+
+// "/translate French hello" -> { name: 'translate', args: 'French hello' }
+export function parseSlashCommand(text: string): { name: string; args: string } | null {
+  const match = text.trim().match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+  return match ? { name: match[1].toLowerCase(), args: match[2]?.trim() ?? '' } : null;
+}
+
+export const isSlashCommandName = (name: string): name is SlashCommandName =>
+  SLASH_COMMANDS.some(command => command.name === name);
@@ -0,0 +1,106 @@
+import { collection, deleteDoc, doc, getDocs, setDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { PromptTemplate } from '../types';
+import { UserProfile } from '../App';
+
+const GUEST_TEMPLATES_KEY = 'nexaneuron-templates';
+const EXPORT_VERSION = 1;
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const templatesCollection = (uid: string) => collection(db, 'users', uid, 'templates');
+
+const byCategoryAndName = (a: PromptTemplate, b: PromptTemplate) =>
+  a.category.localeCompare(b.category) || a.name.localeCompare(b.name);
+
+export function createTemplate(from?: PromptTemplate): PromptTemplate {
+  return {
+    id: crypto.randomUUID(),
+    name: from ? `${from.name} (copy)` : 'New template',
+    category: from?.category ?? 'General',
+    description: from?.description ?? '',
+    body: from?.body ?? '',
+  };
+}
+
+// What the template is typed as after "/" in the composer.
+export const templateCommand = (template: PromptTemplate) =>
+  template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Variable names in order of first use.
+export function extractVariables(body: string): string[] {
+  return [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]))];
+}
+
+export function fillTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+// Same split as personas: Firestore for signed-in users, localStorage for guests.
+class TemplateStore {
+  async list(user: UserProfile): Promise<PromptTemplate[]> {
+    const templates = user.isGuest
+      ? this.readGuestTemplates()
+      : (await getDocs(templatesCollection(user.uid))).docs.map(snapshot => snapshot.data() as PromptTemplate);
+    return templates.sort(byCategoryAndName);
+  }
+
+  async save(user: UserProfile, template: PromptTemplate): Promise<void> {
+    if (user.isGuest) {
+      const others = this.readGuestTemplates().filter(t => t.id !== template.id);
+      localStorage.setItem(GUEST_TEMPLATES_KEY, JSON.stringify([...others, template]));
+    } else {
+      await setDoc(doc(templatesCollection(user.uid), template.id), template);
+    }
+  }
+
+  async delete(user: UserProfile, id: string): Promise<void> {
+    if (user.isGuest) {
+      localStorage.setItem(GUEST_TEMPLATES_KEY, JSON.stringify(this.readGuestTemplates().filter(t => t.id !== id)));
+    } else {
+      await deleteDoc(doc(templatesCollection(user.uid), id));
+    }
+  }
+
+  private readGuestTemplates(): PromptTemplate[] {
+    try {
+      const saved = JSON.parse(localStorage.getItem(GUEST_TEMPLATES_KEY) ?? '[]');
+      return Array.isArray(saved) ? saved : [];
+    } catch (error) {
+      console.error("Failed to parse templates from localStorage", error);
+      return [];
+    }
+  }
+}
+
+export const templateStore = new TemplateStore();
+
+export function serializeTemplates(templates: PromptTemplate[]): string {
+  const exported = templates.map(({ id, ...template }) => template);
+  return JSON.stringify({ version: EXPORT_VERSION, templates: exported }, null, 2);
+}
+
+// Accepts what serializeTemplates writes, a bare array, or a single template.
+// Imported templates always get fresh ids so they never overwrite existing ones.
+export function parseTemplates(json: string): PromptTemplate[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const items: any[] = Array.isArray(data) ? data : Array.isArray(data?.templates) ? data.templates : [data];
+  const templates = items.map((item, i): PromptTemplate => {
+    if (typeof item?.name !== 'string' || !item.name.trim() || typeof item.body !== 'string' || !item.body.trim()) {
+      throw new Error(`Template ${i + 1} needs a name and a prompt.`);
+    }
+    return {
+      id: crypto.randomUUID(),
+      name: item.name.trim(),
+      category: typeof item.category === 'string' && item.category.trim() ? item.category.trim() : 'General',
+      description: typeof item.description === 'string' ? item.description : '',
+      body: item.body,
+    };
+  });
+  if (templates.length === 0) throw new Error('The file does not contain any templates.');
+  return templates;
+}
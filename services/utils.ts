@@ -1,15 +1,47 @@
 
-export const fileToGenerativePart = async (file: File) => {
-    const base64EncodedDataPromise = new Promise<string>((resolve) => {
+export const fileToDataUrl = (file: Blob) => {
+    return new Promise<string>((resolve) => {
       const reader = new FileReader();
-      reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+      reader.onloadend = () => resolve(reader.result as string);
       reader.readAsDataURL(file);
     });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+export const fileToGenerativePart = async (file: File) => {
+    const dataUrl = await fileToDataUrl(file);
+    return {
+      inlineData: { data: dataUrl.split(',')[1], mimeType: file.type },
+    };
+};
+
+// Inverse of fileToDataUrl, for images kept in saved chat history.
+export const dataUrlToGenerativePart = (dataUrl: string) => {
+    const [header, data] = dataUrl.split(',');
+    const mimeType = header.slice('data:'.length, header.indexOf(';'));
     return {
-      inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
+      inlineData: { data, mimeType },
     };
 };
 
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
 export function decode(base64: string): Uint8Array {
   const binaryString = atob(base64);
   const len = binaryString.length;
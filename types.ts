@@ -1,3 +1,6 @@
+import { BlockedReason, FinishReason, HarmCategory, HarmProbability, SafetySetting } from '@google/genai';
+import type { GeminiErrorKind } from './services/errors';
+
 
 export enum Feature {
   CHATBOT = 'NexaNeuron Ai',
@@ -10,12 +13,141 @@ export enum Feature {
   GROUNDING_SEARCH = 'Grounded Search',
   COMPLEX_TASK_SOLVER = 'Complex Task Solver',
   TEXT_TO_SPEECH = 'Text to Speech',
+  MEMORY = 'Memory',
+  KNOWLEDGE_BASE = 'Knowledge Base',
+  SETTINGS = 'Settings',
+}
+
+export type ToolCallStatus = 'awaiting-confirmation' | 'running' | 'done' | 'declined' | 'error';
+
+// A function call the chat model made during a reply, shown as a card.
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolCallStatus;
+  cost?: number;
+  result?: Record<string, unknown>;
+  error?: string;
+  images?: string[];
+  audio?: string;
+}
+
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+// Files are kept as data URLs so they are saved with the conversation.
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  kind: AttachmentKind;
+  size: number;
+  dataUrl: string;
+}
+
+// Sampling and output settings from the advanced settings panel. Unset
+// fields use the model's defaults.
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  seed?: number;
+  candidateCount?: number;
+  safetySettings?: SafetySetting[];
+}
+
+// Why Gemini refused a prompt (blockReason) or stopped an answer (finishReason),
+// with how it rated each harm category.
+export interface SafetyFeedback {
+  blockReason?: BlockedReason;
+  finishReason?: FinishReason;
+  ratings: { category: HarmCategory; probability: HarmProbability; blocked: boolean }[];
+}
+
+// Token counts from a response's usageMetadata, summed over every request
+// that went into one reply.
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  candidatesTokens: number;
+  thinkingTokens: number;
+  totalTokens: number;
+}
+
+// A passage from the knowledge base that a reply was given, numbered from 1
+// in the order listed.
+export interface Citation {
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  chunkIndex: number;
+  text: string;
 }
 
 export interface ChatMessage {
+  id?: string;
+  parentId?: string | null;
   role: 'user' | 'model';
   parts: { text: string }[];
+  // Single image of messages sent before attachments were added
   imagePreview?: string;
+  attachments?: Attachment[];
+  toolCalls?: ToolCallRecord[];
+  citations?: Citation[];
+  usage?: TokenUsage;
+  // Set when the prompt or the reply was blocked
+  safety?: SafetyFeedback;
+  timestamp?: number;
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  systemInstruction: string;
+  // Empty to use the chat model picked in Settings
+  model: string;
+  // Left unset, the model's own defaults apply
+  temperature?: number;
+  topP?: number;
+  safetySettings?: SafetySetting[];
+  // Shown to open an empty conversation; never sent to the model
+  greeting?: string;
+  // Built-in personas can be duplicated but not edited or deleted
+  builtIn?: boolean;
+}
+
+// A fact about the user that new chats are told about, once the user approves it.
+export interface Memory {
+  id: string;
+  text: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Reusable prompt for the chat composer; `{{name}}` marks a variable the user fills in.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  category: string;
+  description: string;
+  body: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  personaId: string;
+  model: string;
+  systemInstruction: string;
+  // Every message in the tree; `leafId` picks the branch on screen
+  messages: ChatMessage[];
+  leafId?: string | null;
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export type AspectRatio = "1:1" | "16:9" | "9:16" | "4:3" | "3:4";
@@ -23,4 +155,60 @@ export type AspectRatio = "1:1" | "16:9" | "9:16" | "4:3" | "3:4";
 export interface GroundingSource {
   title: string;
   uri: string;
-}
\ No newline at end of file
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  collection: string;
+  mimeType: string;
+  size: number;
+  chunkCount: number;
+  createdAt: number;
+}
+
+export interface KnowledgeChunk {
+  // `${documentId}:${index}`, so a document's chunks sort together
+  id: string;
+  documentId: string;
+  collection: string;
+  index: number;
+  text: string;
+  embedding: number[];
+}
+
+export type JobKind = 'video' | 'images' | 'videoAnalysis' | 'complexTask';
+
+// `interrupted` jobs were running when the page closed and can't be picked up
+// again; only videos can, since Veo keeps the operation.
+export type JobStatus = 'running' | 'done' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface JobResult {
+  video?: Blob;
+  images?: string[];
+  text?: string;
+}
+
+export interface BackgroundJob {
+  id: string;
+  kind: JobKind;
+  // The prompt, to recognise the job by
+  title: string;
+  status: JobStatus;
+  // 0–100, for jobs that report it
+  progress?: number;
+  // The Veo operation to poll, kept so polling resumes after a reload
+  operationName?: string;
+  result?: JobResult;
+  error?: string;
+  errorKind?: GeminiErrorKind;
+  safety?: SafetyFeedback;
+  // Coins charged to `userId` once the job succeeds
+  cost?: number;
+  // Set, in the same transaction that checks it, by the one tab that charges
+  charged?: boolean;
+  userId?: string;
+  isGuest?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
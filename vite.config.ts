@@ -1,23 +1,37 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Only the direct Google provider needs the key in the browser. In proxy and
+    // mock mode it must stay out of the bundle.
+    const clientApiKey = !env.GENAI_PROVIDER || env.GENAI_PROVIDER === 'google' ? env.GEMINI_API_KEY : '';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(clientApiKey),
+        'process.env.GENAI_PROVIDER': JSON.stringify(env.GENAI_PROVIDER),
+        'process.env.GENAI_PROXY_URL': JSON.stringify(env.GENAI_PROXY_URL || ''),
+        'process.env.MODEL_PRICING': JSON.stringify(env.MODEL_PRICING || '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // The sanitizer and markdown renderer work on DOM templates
+        environment: 'jsdom',
       }
     };
 });